@@ -0,0 +1,331 @@
+// =============================================================================
+// Debug adapter for Wren hosts.
+//
+// Runs inside the extension (no separate adapter process) and translates the
+// Debug Adapter Protocol that VS Code speaks into the host protocol described
+// in docs/debug-protocol.md.  The host knows modules by name; files are
+// mapped to and from those names with the same module resolution the
+// language service uses for imports, relative to the configured `program`.
+// =============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { WrenLanguageService } from '../language/languageService';
+import { HostConnection } from './hostConnection';
+import {
+    DEFAULT_PORT,
+    PROTOCOL_VERSION,
+} from './protocol';
+import type {
+    HelloBody,
+    HostEvent,
+    HostLocation,
+    OutputEventBody,
+    ScopesBody,
+    SetBreakpointsBody,
+    StackTraceBody,
+    StoppedEventBody,
+    TerminatedEventBody,
+    VariablesBody,
+} from './protocol';
+
+export const WREN_DEBUG_TYPE = 'wren';
+
+export interface WrenAttachConfiguration extends vscode.DebugConfiguration {
+    host?: string;
+    port?: number;
+    /** The script the host runs; module names are resolved relative to it */
+    program?: string;
+    stopOnEntry?: boolean;
+    /** Milliseconds to wait for the host to accept the connection */
+    timeout?: number;
+}
+
+interface DapRequest {
+    seq: number;
+    type: 'request';
+    command: string;
+    arguments?: Record<string, unknown>;
+}
+
+/** The only thread: Wren runs one fiber at a time. */
+const THREAD_ID = 1;
+
+export class WrenDebugSession implements vscode.DebugAdapter {
+    private readonly messageEmitter = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+    readonly onDidSendMessage = this.messageEmitter.event;
+
+    private connection: HostConnection | null = null;
+    private programDocument: vscode.TextDocument | null = null;
+    private seq = 1;
+    private terminated = false;
+
+    constructor(
+        private readonly configuration: WrenAttachConfiguration,
+        private readonly service: WrenLanguageService,
+    ) {}
+
+    handleMessage(message: vscode.DebugProtocolMessage): void {
+        const request = message as DapRequest;
+        if (request.type !== 'request') return;
+        this.dispatch(request).then(
+            body => this.respond(request, true, body),
+            (error: Error) => this.respond(request, false, undefined, error.message),
+        );
+    }
+
+    dispose(): void {
+        this.connection?.close();
+        this.messageEmitter.dispose();
+    }
+
+    private async dispatch(request: DapRequest): Promise<unknown> {
+        const args = request.arguments ?? {};
+        switch (request.command) {
+            case 'initialize':
+                return {
+                    supportsConfigurationDoneRequest: true,
+                    supportsTerminateRequest: false,
+                };
+
+            case 'launch':
+                throw new Error('Wren debugging attaches to a running host: use an "attach" configuration.');
+
+            case 'attach':
+                await this.attach();
+                this.sendEvent('initialized');
+                return undefined;
+
+            case 'setBreakpoints':
+                return this.setBreakpoints(args);
+
+            case 'configurationDone':
+                await this.host().request('configurationDone', { stopOnEntry: this.configuration.stopOnEntry ?? false });
+                return undefined;
+
+            case 'threads':
+                return { threads: [{ id: THREAD_ID, name: 'Main fiber' }] };
+
+            case 'stackTrace':
+                return this.stackTrace();
+
+            case 'scopes': {
+                const body = await this.host().request<ScopesBody>('scopes', { frame: args.frameId });
+                return {
+                    scopes: body.scopes.map(scope => ({
+                        name: scope.name,
+                        variablesReference: scope.reference,
+                        expensive: false,
+                    })),
+                };
+            }
+
+            case 'variables': {
+                const body = await this.host().request<VariablesBody>('variables', { reference: args.variablesReference });
+                return {
+                    variables: body.variables.map(variable => ({
+                        name: variable.name,
+                        value: variable.value,
+                        type: variable.type,
+                        variablesReference: variable.reference ?? 0,
+                    })),
+                };
+            }
+
+            case 'continue':
+                await this.host().request('continue');
+                return { allThreadsContinued: true };
+
+            case 'next':
+            case 'stepIn':
+            case 'stepOut':
+            case 'pause':
+                await this.host().request(request.command);
+                return undefined;
+
+            case 'disconnect':
+                await this.disconnect();
+                return undefined;
+
+            default:
+                throw new Error(`Unsupported request '${request.command}'.`);
+        }
+    }
+
+    private async attach(): Promise<void> {
+        const { host = '127.0.0.1', port = DEFAULT_PORT, program, timeout = 5000 } = this.configuration;
+        if (program && fs.existsSync(program)) {
+            this.programDocument = await vscode.workspace.openTextDocument(program);
+        }
+        this.connection = await HostConnection.connect(
+            host,
+            port,
+            timeout,
+            event => this.handleHostEvent(event),
+            () => this.terminate(),
+        );
+        const hello = await this.connection.request<HelloBody>('hello', { protocolVersion: PROTOCOL_VERSION });
+        if (hello.protocolVersion !== PROTOCOL_VERSION) {
+            this.connection.close();
+            throw new Error(`${hello.name} speaks debug protocol version ${hello.protocolVersion}; version ${PROTOCOL_VERSION} is required.`);
+        }
+        this.sendEvent('output', { category: 'console', output: `Attached to ${hello.name} at ${host}:${port}\n` });
+    }
+
+    private async setBreakpoints(args: Record<string, unknown>): Promise<unknown> {
+        const source = args.source as { path?: string } | undefined;
+        const requested = (args.breakpoints as { line: number }[] | undefined) ?? [];
+        if (!source?.path) {
+            return { breakpoints: requested.map(bp => ({ verified: false, line: bp.line })) };
+        }
+        const body = await this.host().request<SetBreakpointsBody>('setBreakpoints', {
+            module: this.moduleFor(source.path),
+            path: source.path,
+            lines: requested.map(bp => bp.line),
+        });
+        return {
+            breakpoints: body.breakpoints.map(bp => ({
+                verified: bp.verified,
+                line: bp.line,
+                message: bp.message,
+                source: { path: source.path },
+            })),
+        };
+    }
+
+    private async stackTrace(): Promise<unknown> {
+        const body = await this.host().request<StackTraceBody>('stackTrace');
+        const stackFrames = body.frames.map(frame => {
+            const file = this.fileFor(frame);
+            return {
+                id: frame.id,
+                name: frame.function,
+                line: frame.line,
+                column: 1,
+                source: file
+                    ? { name: vscode.workspace.asRelativePath(file), path: file }
+                    : { name: frame.module, presentationHint: 'deemphasize' },
+            };
+        });
+        return { stackFrames, totalFrames: stackFrames.length };
+    }
+
+    private async disconnect(): Promise<void> {
+        if (this.connection) {
+            try {
+                await this.connection.request('disconnect');
+            } catch {
+                // The host may already be gone
+            }
+            this.connection.close();
+            this.connection = null;
+        }
+    }
+
+    private handleHostEvent(event: HostEvent): void {
+        switch (event.event) {
+            case 'stopped': {
+                const body = event.body as StoppedEventBody;
+                this.sendEvent('stopped', {
+                    reason: body.reason,
+                    threadId: THREAD_ID,
+                    allThreadsStopped: true,
+                    text: body.text,
+                    description: body.reason === 'exception' ? body.text : undefined,
+                });
+                break;
+            }
+            case 'output': {
+                const body = event.body as OutputEventBody;
+                this.sendEvent('output', { category: body.category, output: body.text });
+                break;
+            }
+            case 'terminated': {
+                const body = event.body as TerminatedEventBody | undefined;
+                if (body?.exitCode !== undefined) {
+                    this.sendEvent('exited', { exitCode: body.exitCode });
+                }
+                this.terminate();
+                break;
+            }
+        }
+    }
+
+    private terminate(): void {
+        if (this.terminated) return;
+        this.terminated = true;
+        this.sendEvent('terminated');
+    }
+
+    // --- Module mapping ---------------------------------------------------------
+
+    /** The file a host location refers to: its path, or its module resolved from the program. */
+    private fileFor(location: HostLocation): string | null {
+        if (location.path && fs.existsSync(location.path)) {
+            return location.path;
+        }
+        const program = this.configuration.program;
+        return program ? this.service.resolveModulePathForFile(program, location.module) : null;
+    }
+
+    /** The module name the host knows a file by, as an import in the program would name it. */
+    private moduleFor(file: string): string | null {
+        if (!this.programDocument) return null;
+        if (this.programDocument.uri.fsPath === file) {
+            return `./${path.basename(file, '.wren')}`;
+        }
+        return this.service.moduleNameFor(this.programDocument, file);
+    }
+
+    // --- Messages -------------------------------------------------------------------
+
+    private host(): HostConnection {
+        if (!this.connection) {
+            throw new Error('Not attached to a Wren host.');
+        }
+        return this.connection;
+    }
+
+    private respond(request: DapRequest, success: boolean, body?: unknown, message?: string): void {
+        this.messageEmitter.fire({
+            seq: this.seq++,
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success,
+            message,
+            body,
+        } as vscode.DebugProtocolMessage);
+    }
+
+    private sendEvent(event: string, body?: unknown): void {
+        this.messageEmitter.fire({ seq: this.seq++, type: 'event', event, body } as vscode.DebugProtocolMessage);
+    }
+}
+
+/** Fills in an attach configuration for F5 without a launch.json, and defaults the program. */
+export class WrenDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+    resolveDebugConfiguration(
+        _folder: vscode.WorkspaceFolder | undefined,
+        config: vscode.DebugConfiguration,
+    ): vscode.DebugConfiguration | undefined {
+        const active = vscode.window.activeTextEditor?.document;
+        const activeProgram = active?.languageId === 'wren' && !active.isUntitled ? active.uri.fsPath : undefined;
+
+        if (!config.type && !config.request && !config.name) {
+            return {
+                type: WREN_DEBUG_TYPE,
+                request: 'attach',
+                name: 'Attach to Wren host',
+                host: '127.0.0.1',
+                port: DEFAULT_PORT,
+                program: activeProgram,
+            };
+        }
+        if (!config.program && activeProgram) {
+            config.program = activeProgram;
+        }
+        return config;
+    }
+}
@@ -0,0 +1,102 @@
+// =============================================================================
+// Client side of the host debug protocol: a TCP connection that sends
+// requests, matches responses by id, and hands events to a listener.
+// =============================================================================
+
+import * as net from 'net';
+import type { HostEvent, HostMessage, HostResponse } from './protocol';
+
+export class HostConnection {
+    private readonly pending = new Map<number, { resolve: (body: unknown) => void; reject: (error: Error) => void }>();
+    private nextId = 1;
+    private buffer = '';
+
+    private constructor(
+        private readonly socket: net.Socket,
+        private readonly onEvent: (event: HostEvent) => void,
+        private readonly onClose: () => void,
+    ) {
+        socket.setEncoding('utf8');
+        socket.on('data', (data: string) => this.receive(data));
+        socket.on('close', () => {
+            for (const { reject } of this.pending.values()) {
+                reject(new Error('The Wren host closed the connection.'));
+            }
+            this.pending.clear();
+            this.onClose();
+        });
+    }
+
+    /** Connect to a host, failing after `timeoutMs`. */
+    static connect(
+        host: string,
+        port: number,
+        timeoutMs: number,
+        onEvent: (event: HostEvent) => void,
+        onClose: () => void,
+    ): Promise<HostConnection> {
+        return new Promise((resolve, reject) => {
+            const socket = net.createConnection({ host, port });
+            const timer = setTimeout(() => {
+                socket.destroy();
+                reject(new Error(`Timed out connecting to the Wren host at ${host}:${port}.`));
+            }, timeoutMs);
+            socket.once('connect', () => {
+                clearTimeout(timer);
+                socket.removeAllListeners('error');
+                socket.on('error', () => socket.destroy());
+                resolve(new HostConnection(socket, onEvent, onClose));
+            });
+            socket.once('error', error => {
+                clearTimeout(timer);
+                reject(new Error(`Could not connect to the Wren host at ${host}:${port}: ${error.message}`));
+            });
+        });
+    }
+
+    /** Send a request and wait for the host's response body. */
+    request<T = unknown>(command: string, args?: object): Promise<T> {
+        const id = this.nextId++;
+        return new Promise<T>((resolve, reject) => {
+            this.pending.set(id, { resolve: body => resolve(body as T), reject });
+            this.socket.write(JSON.stringify({ id, command, arguments: args }) + '\n');
+        });
+    }
+
+    close(): void {
+        this.socket.end();
+    }
+
+    private receive(data: string): void {
+        this.buffer += data;
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.slice(0, newline).trim();
+            this.buffer = this.buffer.slice(newline + 1);
+            if (!line) continue;
+
+            let message: HostMessage;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                continue;
+            }
+            if ('event' in message) {
+                this.onEvent(message);
+            } else {
+                this.settle(message);
+            }
+        }
+    }
+
+    private settle(response: HostResponse): void {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+        this.pending.delete(response.id);
+        if (response.success) {
+            pending.resolve(response.body);
+        } else {
+            pending.reject(new Error(response.message ?? 'The Wren host rejected the request.'));
+        }
+    }
+}
@@ -0,0 +1,469 @@
+// =============================================================================
+// Mock Wren host for trying the debugger without an engine.
+//
+//     node out/src/debug/mockHost.js path/to/main.wren [--port 5090]
+//
+// It speaks the host protocol (docs/debug-protocol.md) but does not run Wren:
+// it walks the top-level lines of the script in order, and a line that calls
+// `.name` on anything steps into the first method of that name declared in
+// the script.  `var` lines define locals, `_field =` lines define fields,
+// `System.print("...")` prints its string, and `Fiber.abort("...")` stops
+// with an exception.  That is enough to exercise breakpoints, stepping, the
+// call stack and the variables view.
+// =============================================================================
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { DEFAULT_PORT, PROTOCOL_VERSION } from './protocol';
+import type {
+    HostEvent,
+    HostFrame,
+    HostRequest,
+    HostResponse,
+    HostVariable,
+    SetBreakpointsArguments,
+    StoppedEventBody,
+} from './protocol';
+
+interface Step {
+    line: number;
+    text: string;
+}
+
+/** A method body, known to calls by its bare name. */
+interface MethodBody {
+    /** `Class.method` */
+    label: string;
+    className: string;
+    steps: Step[];
+}
+
+interface Script {
+    topLevel: Step[];
+    methods: Map<string, MethodBody[]>;
+}
+
+interface Frame {
+    body: MethodBody | null;
+    steps: Step[];
+    /** Next line to run */
+    index: number;
+    locals: Map<string, string>;
+}
+
+type RunMode = 'continue' | 'next' | 'stepIn' | 'stepOut';
+
+const MAX_DEPTH = 32;
+const MODULE_REFERENCE = 1;
+const FIRST_CHILD_REFERENCE = 1000;
+
+/** Split a script into top-level lines and method bodies. */
+function parseScript(source: string): Script {
+    const script: Script = { topLevel: [], methods: new Map() };
+    let depth = 0;
+    let className: string | null = null;
+    let classDepth = -1;
+    let method: MethodBody | null = null;
+    let methodDepth = -1;
+
+    source.split(/\r?\n/).forEach((raw, index) => {
+        const text = raw.replace(/\/\/.*$/, '').trim();
+        const opens = (text.match(/{/g) ?? []).length;
+        const closes = (text.match(/}/g) ?? []).length;
+        const classHeader = /^(foreign\s+)?class\s+([A-Za-z_]\w*)/.exec(text);
+
+        if (classHeader) {
+            className = classHeader[2];
+            classDepth = depth;
+        } else if (className && depth === classDepth + 1 && text.includes('{')) {
+            // A method header inside a class body; one-line bodies are not stepped into
+            const name = /^(?:static\s+|construct\s+|foreign\s+)*([A-Za-z_]\w*|[^\s({]+)/.exec(text)?.[1] ?? '?';
+            const body: MethodBody = { label: `${className}.${name}`, className, steps: [] };
+            script.methods.set(name, [...script.methods.get(name) ?? [], body]);
+            if (opens > closes) {
+                method = body;
+                methodDepth = depth;
+            }
+        } else if (text && !/^[{}]+$/.test(text) && !text.startsWith('#') && !text.startsWith('import ')) {
+            (method ? method.steps : script.topLevel).push({ line: index + 1, text });
+        }
+
+        depth += opens - closes;
+        if (method && depth <= methodDepth) {
+            method = null;
+            methodDepth = -1;
+        }
+        if (className && depth <= classDepth) {
+            className = null;
+            classDepth = -1;
+        }
+    });
+    return script;
+}
+
+function guessType(value: string): string {
+    if (/^-?\d/.test(value)) return 'Num';
+    if (value.startsWith('"')) return 'String';
+    if (value === 'true' || value === 'false') return 'Bool';
+    if (value === 'null') return 'Null';
+    if (value.startsWith('[')) return 'List';
+    if (value.startsWith('{')) return 'Map';
+    const constructed = /^([A-Z]\w*)\.new\b/.exec(value);
+    return constructed ? constructed[1] : 'Object';
+}
+
+/** Elements of a `[a, b, c]` literal, split at top-level commas. */
+function listElements(value: string): string[] {
+    const inner = value.slice(1, value.lastIndexOf(']'));
+    const elements: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < inner.length; i++) {
+        const ch = inner[i];
+        if ('([{'.includes(ch)) depth++;
+        else if (')]}'.includes(ch)) depth--;
+        else if (ch === ',' && depth === 0) {
+            elements.push(inner.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    if (inner.trim()) elements.push(inner.slice(start).trim());
+    return elements;
+}
+
+/** A request line from the adapter, or null when it is not JSON or not shaped like a request. */
+function parseRequest(line: string): HostRequest | null {
+    let message: unknown;
+    try {
+        message = JSON.parse(line);
+    } catch {
+        return null;
+    }
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) return null;
+    const { id, command, arguments: args } = message as Record<string, unknown>;
+    if (typeof id !== 'number' || typeof command !== 'string') return null;
+    if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) return null;
+    return message as HostRequest;
+}
+
+class MockSession {
+    private readonly script: Script;
+    private readonly moduleName: string;
+    private breakpoints = new Set<number>();
+    /** Innermost frame last; empty once the script has finished */
+    private stack: Frame[];
+    private running = false;
+    private pauseRequested = false;
+    private failed: string | null = null;
+
+    private readonly moduleVars = new Map<string, string>();
+    /** Fields by class name: the mock has one instance of each class */
+    private readonly fields = new Map<string, Map<string, string>>();
+    /** Children of expandable values, by reference; rebuilt at every stop */
+    private readonly children = new Map<number, HostVariable[]>();
+    private nextReference = FIRST_CHILD_REFERENCE;
+    private buffer = '';
+
+    constructor(private readonly socket: net.Socket, private readonly scriptPath: string) {
+        this.script = parseScript(fs.readFileSync(scriptPath, 'utf8'));
+        this.moduleName = `./${path.basename(scriptPath, '.wren')}`;
+        this.stack = [{ body: null, steps: this.script.topLevel, index: 0, locals: this.moduleVars }];
+        socket.setEncoding('utf8');
+        socket.on('data', (data: string) => this.receive(data));
+        socket.on('error', () => socket.destroy());
+    }
+
+    private receive(data: string): void {
+        this.buffer += data;
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.slice(0, newline).trim();
+            this.buffer = this.buffer.slice(newline + 1);
+            if (!line) continue;
+            const request = parseRequest(line);
+            if (!request) {
+                // Without an id there is nobody to answer
+                console.error(`Ignoring malformed message: ${line}`);
+                continue;
+            }
+            const { id } = request;
+            try {
+                this.send({ id, success: true, body: this.handle(request) });
+            } catch (error) {
+                this.send({ id, success: false, message: error instanceof Error ? error.message : String(error) });
+            }
+        }
+    }
+
+    private handle(request: HostRequest): unknown {
+        const args = request.arguments ?? {};
+        switch (request.command) {
+            case 'hello':
+                return { name: 'Wren mock host', protocolVersion: PROTOCOL_VERSION };
+
+            case 'setBreakpoints':
+                return this.setBreakpoints(args as unknown as SetBreakpointsArguments);
+
+            case 'configurationDone':
+                if (args.stopOnEntry) {
+                    setImmediate(() => this.stop('entry'));
+                } else {
+                    setImmediate(() => this.startRunning('continue', true));
+                }
+                return undefined;
+
+            case 'stackTrace':
+                return { frames: this.frames() };
+
+            case 'scopes':
+                return { scopes: this.scopes(Number(args.frame)) };
+
+            case 'variables':
+                return { variables: this.variables(Number(args.reference)) };
+
+            case 'continue':
+            case 'next':
+            case 'stepIn':
+            case 'stepOut':
+                if (this.failed !== null) {
+                    // Continuing past an uncaught error ends the script, as in wren_cli
+                    setImmediate(() => this.finish(70));
+                } else {
+                    setImmediate(() => this.startRunning(request.command as RunMode, false));
+                }
+                return undefined;
+
+            case 'pause':
+                this.pauseRequested = this.running;
+                return undefined;
+
+            case 'disconnect':
+                this.running = false;
+                setImmediate(() => this.socket.end());
+                return undefined;
+
+            default:
+                throw new Error(`Unknown command '${request.command}'.`);
+        }
+    }
+
+    private setBreakpoints(args: SetBreakpointsArguments): unknown {
+        const isScript = path.resolve(args.path) === path.resolve(this.scriptPath) || args.module === this.moduleName;
+        if (!isScript) {
+            return { breakpoints: args.lines.map(line => ({ line, verified: false, message: 'The mock host only runs one module.' })) };
+        }
+        const codeLines = new Set(this.script.topLevel.map(step => step.line));
+        for (const bodies of this.script.methods.values()) {
+            bodies.forEach(body => body.steps.forEach(step => codeLines.add(step.line)));
+        }
+        this.breakpoints = new Set(args.lines.filter(line => codeLines.has(line)));
+        return {
+            breakpoints: args.lines.map(line => codeLines.has(line)
+                ? { line, verified: true }
+                : { line, verified: false, message: 'No code on this line.' }),
+        };
+    }
+
+    // --- Execution ----------------------------------------------------------------
+
+    private current(): Step | undefined {
+        const top = this.stack[this.stack.length - 1];
+        return top?.steps[top.index];
+    }
+
+    private startRunning(mode: RunMode, checkFirstLine: boolean): void {
+        if (checkFirstLine && this.breakpoints.has(this.current()?.line ?? -1)) {
+            this.stop('breakpoint');
+            return;
+        }
+        this.running = true;
+        const originDepth = this.stack.length;
+        const tick = () => {
+            if (!this.running) return;
+            if (this.execute()) return;
+
+            const next = this.current();
+            if (!next) {
+                this.finish(0);
+            } else if (this.pauseRequested) {
+                this.stop('pause');
+            } else if (this.breakpoints.has(next.line)) {
+                this.stop('breakpoint');
+            } else if (mode === 'stepIn'
+                || (mode === 'next' && this.stack.length <= originDepth)
+                || (mode === 'stepOut' && this.stack.length < originDepth)) {
+                this.stop('step');
+            } else {
+                setTimeout(tick, 5);
+            }
+        };
+        tick();
+    }
+
+    /** "Run" the current line and move on; returns true when it stopped the script. */
+    private execute(): boolean {
+        const frame = this.stack[this.stack.length - 1];
+        const step = frame?.steps[frame.index];
+        if (!step) {
+            // Nothing left to run, e.g. a script without top-level lines
+            return false;
+        }
+
+        const declaration = /^var\s+([A-Za-z_]\w*)(?:\s*:\s*\w+)?\s*=\s*(.+)$/.exec(step.text);
+        if (declaration) {
+            frame.locals.set(declaration[1], declaration[2]);
+        }
+        const field = /^(_[A-Za-z_]\w*)\s*=\s*(.+)$/.exec(step.text);
+        if (field && frame.body) {
+            const fields = this.fields.get(frame.body.className) ?? new Map<string, string>();
+            fields.set(field[1], field[2]);
+            this.fields.set(frame.body.className, fields);
+        }
+        const print = /System\.print\((.*)\)\s*$/.exec(step.text);
+        if (print) {
+            const text = /^"(.*)"$/.exec(print[1].trim());
+            this.sendEvent({ event: 'output', body: { category: 'stdout', text: `${text ? text[1] : print[1]}\n` } });
+        }
+        const abort = /Fiber\.abort\((.*)\)/.exec(step.text);
+        if (abort) {
+            this.failed = abort[1].replace(/^"|"$/g, '');
+            this.sendEvent({ event: 'output', body: { category: 'stderr', text: `${this.failed}\n` } });
+            this.stop('exception', this.failed);
+            return true;
+        }
+
+        frame.index++;
+        const callee = this.findCallee(step.text);
+        if (callee && this.stack.length < MAX_DEPTH) {
+            this.stack.push({ body: callee, steps: callee.steps, index: 0, locals: new Map() });
+        }
+        // Return from every frame that has run its last line
+        while (this.stack.length > 0 && this.current() === undefined) {
+            this.stack.pop();
+        }
+        return false;
+    }
+
+    /** The first method body a line calls through `.name`, if any has lines to step into. */
+    private findCallee(text: string): MethodBody | null {
+        for (const match of text.matchAll(/\.([A-Za-z_]\w*)/g)) {
+            const body = this.script.methods.get(match[1])?.find(b => b.steps.length > 0);
+            if (body) return body;
+        }
+        return null;
+    }
+
+    private stop(reason: StoppedEventBody['reason'], text?: string): void {
+        this.running = false;
+        this.pauseRequested = false;
+        this.children.clear();
+        this.nextReference = FIRST_CHILD_REFERENCE;
+        this.sendEvent({ event: 'stopped', body: { reason, text } });
+    }
+
+    private finish(exitCode: number): void {
+        this.running = false;
+        this.stack = [];
+        this.sendEvent({ event: 'terminated', body: { exitCode } });
+        this.socket.end();
+    }
+
+    // --- Inspection -----------------------------------------------------------------
+
+    /** Frame ids count from the innermost frame, which is 1. */
+    private frameAt(id: number): Frame | undefined {
+        return this.stack[this.stack.length - id];
+    }
+
+    private frames(): HostFrame[] {
+        const location = { module: this.moduleName, path: path.resolve(this.scriptPath) };
+        return [...this.stack].reverse().map((frame, i) => ({
+            id: i + 1,
+            ...location,
+            // Callers have already moved past the line that made the call
+            line: (i === 0 ? frame.steps[frame.index] : frame.steps[frame.index - 1])?.line ?? 1,
+            function: frame.body?.label ?? '(script)',
+        }));
+    }
+
+    private scopes(frameId: number): { name: string; reference: number }[] {
+        const frame = this.frameAt(frameId);
+        if (!frame?.body) {
+            return [{ name: 'Module', reference: MODULE_REFERENCE }];
+        }
+        return [
+            { name: 'Locals', reference: frameId * 2 },
+            { name: 'Fields', reference: frameId * 2 + 1 },
+            { name: 'Module', reference: MODULE_REFERENCE },
+        ];
+    }
+
+    private variables(reference: number): HostVariable[] {
+        if (reference === MODULE_REFERENCE) {
+            return this.describe(this.moduleVars);
+        }
+        if (reference >= FIRST_CHILD_REFERENCE) {
+            return this.children.get(reference) ?? [];
+        }
+        const frame = this.frameAt(Math.floor(reference / 2));
+        if (!frame?.body) return [];
+        return reference % 2 === 0
+            ? this.describe(frame.locals)
+            : this.describe(this.fields.get(frame.body.className) ?? new Map());
+    }
+
+    private describe(values: Map<string, string>): HostVariable[] {
+        return [...values].map(([name, value]) => this.variable(name, value));
+    }
+
+    private variable(name: string, value: string): HostVariable {
+        const type = guessType(value);
+        const variable: HostVariable = { name, value, type };
+        if (type === 'List') {
+            const reference = this.nextReference++;
+            this.children.set(reference, listElements(value).map((element, i) => this.variable(`[${i}]`, element)));
+            variable.reference = reference;
+        }
+        return variable;
+    }
+
+    // --- Messages -------------------------------------------------------------------
+
+    private send(message: HostResponse): void {
+        this.socket.write(JSON.stringify(message) + '\n');
+    }
+
+    private sendEvent(event: HostEvent): void {
+        this.socket.write(JSON.stringify(event) + '\n');
+    }
+}
+
+function main(argv: string[]): void {
+    const portFlag = argv.indexOf('--port');
+    const port = portFlag !== -1 ? Number(argv[portFlag + 1]) : DEFAULT_PORT;
+    const script = argv.find((arg, i) => !arg.startsWith('--') && argv[i - 1] !== '--port');
+    if (!script || !fs.existsSync(script)) {
+        console.error('Usage: node mockHost.js <script.wren> [--port 5090]');
+        process.exit(2);
+    }
+
+    // One debugger at a time; each connection runs the script from the start
+    let active: net.Socket | null = null;
+    const server = net.createServer(socket => {
+        if (active) {
+            socket.end();
+            return;
+        }
+        active = socket;
+        socket.on('close', () => { active = null; });
+        new MockSession(socket, script);
+    });
+    server.listen(port, '127.0.0.1', () => {
+        console.log(`Wren mock host listening on 127.0.0.1:${port} (script: ${script})`);
+    });
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2));
+}
@@ -0,0 +1,113 @@
+// =============================================================================
+// Wren host debug protocol: message shapes shared by the debug adapter and
+// the mock host.  See docs/debug-protocol.md for the full description.
+//
+// Messages are JSON objects, one per line (`\n`-terminated), over TCP.  The
+// adapter sends requests and the host answers each with a response carrying
+// the same `id`; the host also sends events at any time.  Lines are 1-based.
+// =============================================================================
+
+export const PROTOCOL_VERSION = 1;
+export const DEFAULT_PORT = 5090;
+
+export interface HostRequest {
+    id: number;
+    command: string;
+    arguments?: Record<string, unknown>;
+}
+
+export interface HostResponse {
+    id: number;
+    success: boolean;
+    /** Why the request failed, when `success` is false */
+    message?: string;
+    body?: unknown;
+}
+
+export interface HostEvent {
+    event: 'stopped' | 'output' | 'terminated';
+    body?: unknown;
+}
+
+export type HostMessage = HostResponse | HostEvent;
+
+/** A source position as the host reports it. */
+export interface HostLocation {
+    /** Module name as the host resolved it, e.g. `./main` or `engine/actor` */
+    module: string;
+    /** Absolute file path, when the host knows it */
+    path?: string;
+    line: number;
+}
+
+export interface HostFrame extends HostLocation {
+    id: number;
+    /** Function the frame is in, e.g. `Foo.bar(_)` or `(script)` */
+    function: string;
+}
+
+export interface HostScope {
+    /** `Locals`, `Fields`, `Module` ... */
+    name: string;
+    reference: number;
+}
+
+export interface HostVariable {
+    name: string;
+    value: string;
+    type?: string;
+    /** Non-zero when the value has children (fields, list elements, map entries) */
+    reference?: number;
+}
+
+// --- Request arguments and bodies ---------------------------------------------
+
+export interface HelloBody {
+    name: string;
+    protocolVersion: number;
+}
+
+export interface SetBreakpointsArguments {
+    /** Module name of the file, as the adapter resolves it */
+    module: string | null;
+    /** Absolute file path; hosts may match on either */
+    path: string;
+    lines: number[];
+}
+
+export interface SetBreakpointsBody {
+    breakpoints: { line: number; verified: boolean; message?: string }[];
+}
+
+export interface ConfigurationDoneArguments {
+    stopOnEntry: boolean;
+}
+
+export interface StackTraceBody {
+    frames: HostFrame[];
+}
+
+export interface ScopesBody {
+    scopes: HostScope[];
+}
+
+export interface VariablesBody {
+    variables: HostVariable[];
+}
+
+// --- Event bodies -----------------------------------------------------------------
+
+export interface StoppedEventBody {
+    reason: 'entry' | 'breakpoint' | 'step' | 'pause' | 'exception';
+    /** Error message when `reason` is `exception` */
+    text?: string;
+}
+
+export interface OutputEventBody {
+    category: 'stdout' | 'stderr';
+    text: string;
+}
+
+export interface TerminatedEventBody {
+    exitCode?: number;
+}
@@ -1,12 +1,41 @@
 import * as vscode from 'vscode';
-import { WrenLanguageService } from './language/languageService';
-import { AggregatedWorkspaceIndex, WrenClassSymbol, WrenMethodSymbol, WrenFileIndex } from './language/types';
+import { WrenLanguageService, superclassOf } from './language/languageService';
+import { findSymbolTarget, collectOccurrences, methodSymbolName, rootMethodTarget } from './language/references';
+import { findCallers, findCallsFrom } from './language/callHierarchy';
+import { SourceLayout, buildFoldingRanges, buildSelectionRange, methodStart } from './language/ranges';
+import { BUILTIN_MODULE_NAMES, listModuleCandidates } from './language/moduleCompletion';
+import { extractReceiverText, inferReceiverType, isSimpleReceiver } from './language/typeInference';
+import type { MethodTarget, SymbolTarget, SymbolOccurrence } from './language/references';
+import { inferFieldTypes, walkModule, visibleBindingsAt } from './language/scopes';
+import type { ScopeBinding, VisibleScopes } from './language/scopes';
+import { CORE_CLASSES, getBuiltinClasses } from './language/builtins';
+import { formatWren } from './language/formatter';
+import { organizeImports } from './language/imports';
+import { buildInlayHints } from './language/inlayHints';
+import type { WrenFormatOptions } from './language/formatter';
+import { buildSemanticTokens, SEMANTIC_TOKENS_LEGEND } from './language/semanticTokens';
+import { WorkspaceSymbolIndex } from './language/workspaceSymbolIndex';
+import { hasEditorTab, WorkspaceDiagnostics } from './language/workspaceDiagnostics';
+import { ModuleWatcher } from './language/moduleWatcher';
+import { showImportGraph } from './language/importGraphView';
+import { WREN_TASK_TYPE, WrenTaskProvider, WrenTerminalLinkProvider } from './language/runner';
+import { WREN_DEBUG_TYPE, WrenDebugConfigurationProvider, WrenDebugSession } from './debug/debugAdapter';
+import type { WrenAttachConfiguration } from './debug/debugAdapter';
+import { AggregatedWorkspaceIndex, WrenClassSymbol, WrenMethodSymbol, WrenFileIndex, WrenImportSymbol, WrenVariableSymbol } from './language/types';
+import { stripQuotes } from './language/astIndex';
+import type { TypeResolution } from './language/astIndex';
 import { getCoreRegistry } from '../wren-analyzer/src/core/core-registry';
 import { isBuiltinModule } from '../wren-analyzer/src/index';
-import type { Module, Stmt, Expr, Method, Body, ClassStmt, Token } from '../wren-analyzer/src/index';
+import type { Module, ClassStmt, Method, Token } from '../wren-analyzer/src/index';
 
 const KEYWORDS = ['class', 'construct', 'foreign', 'import', 'return', 'static', 'var'];
 
+/** Every reserved word in Wren; none of these can be used as a name. */
+const RESERVED_WORDS = new Set([
+    'as', 'break', 'class', 'construct', 'continue', 'else', 'false', 'for', 'foreign', 'if',
+    'import', 'in', 'is', 'null', 'return', 'static', 'super', 'this', 'true', 'var', 'while',
+]);
+
 export function activate(context: vscode.ExtensionContext) {
     const languageService = new WrenLanguageService();
 
@@ -19,6 +48,27 @@ export function activate(context: vscode.ExtensionContext) {
         diagnosticCollection.set(document.uri, await languageService.getDiagnostics(document));
     };
 
+    // Watches `.wren` files on disk for the language service, the workspace
+    // diagnostics and the workspace symbol index
+    const moduleWatcher = new ModuleWatcher(languageService);
+    context.subscriptions.push(moduleWatcher);
+
+    // Files that are not open, when `wren.diagnosticsScope` is `workspace`
+    const workspaceDiagnostics = new WorkspaceDiagnostics(languageService, diagnosticCollection, moduleWatcher);
+    context.subscriptions.push(workspaceDiagnostics);
+
+    // Re-check files whose imported modules changed on disk
+    context.subscriptions.push(
+        moduleWatcher.onDidInvalidate(files => {
+            for (const document of vscode.workspace.textDocuments) {
+                if (files.includes(document.uri.fsPath)) {
+                    refreshDiagnostics(document);
+                }
+            }
+            workspaceDiagnostics.reanalyze(files);
+        })
+    );
+
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(event => {
             languageService.handleConfigurationChange(event);
@@ -43,7 +93,7 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.languages.registerCompletionItemProvider('wren', new AnalyzerCompletionProvider(languageService), '.', '"')
+        vscode.languages.registerCompletionItemProvider('wren', new AnalyzerCompletionProvider(languageService), '.', '"', '/')
     );
 
     context.subscriptions.push(
@@ -58,6 +108,117 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.languages.registerDefinitionProvider('wren', new WrenDefinitionProvider(languageService))
     );
 
+    context.subscriptions.push(
+        vscode.languages.registerReferenceProvider('wren', new WrenReferenceProvider(languageService))
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerRenameProvider('wren', new WrenRenameProvider(languageService))
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerDocumentHighlightProvider('wren', new WrenDocumentHighlightProvider(languageService))
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerFoldingRangeProvider('wren', new WrenFoldingRangeProvider(languageService))
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerSelectionRangeProvider('wren', new WrenSelectionRangeProvider(languageService))
+    );
+
+    const symbolIndex = new WorkspaceSymbolIndex(languageService, moduleWatcher);
+    context.subscriptions.push(
+        symbolIndex,
+        vscode.languages.registerWorkspaceSymbolProvider(new WrenWorkspaceSymbolProvider(symbolIndex))
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider('wren', new WrenImportQuickFixProvider(languageService, symbolIndex), {
+            providedCodeActionKinds: WrenImportQuickFixProvider.providedCodeActionKinds
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerCallHierarchyProvider('wren', new WrenCallHierarchyProvider(languageService))
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerTypeHierarchyProvider('wren', new WrenTypeHierarchyProvider(languageService))
+    );
+
+    const inlayHints = new WrenInlayHintsProvider(languageService);
+    context.subscriptions.push(
+        inlayHints,
+        vscode.languages.registerInlayHintsProvider('wren', inlayHints)
+    );
+
+    const codeLens = new WrenCodeLensProvider(languageService);
+    context.subscriptions.push(
+        codeLens,
+        vscode.languages.registerCodeLensProvider('wren', codeLens)
+    );
+
+    const organizeImports = new WrenOrganizeImportsProvider(languageService);
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider('wren', organizeImports, {
+            providedCodeActionKinds: WrenOrganizeImportsProvider.providedCodeActionKinds
+        }),
+        vscode.commands.registerCommand('wren.organizeImports', () => organizeImports.runCommand()),
+        vscode.commands.registerCommand('wren.showImportGraph', () => showImportGraph(languageService))
+    );
+
+    const semanticTokens = new WrenSemanticTokensProvider(languageService);
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSemanticTokensProvider('wren', semanticTokens, SEMANTIC_TOKENS_LEGEND),
+        vscode.languages.registerDocumentRangeSemanticTokensProvider('wren', semanticTokens, SEMANTIC_TOKENS_LEGEND)
+    );
+
+    const formatter = new WrenFormattingProvider(languageService);
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider('wren', formatter),
+        vscode.languages.registerDocumentRangeFormattingEditProvider('wren', formatter),
+        vscode.languages.registerOnTypeFormattingEditProvider('wren', formatter, '}', '\n')
+    );
+
+    // --- Running scripts: interpreter errors go to their own collection ---
+    const runtimeCollection = vscode.languages.createDiagnosticCollection('wren-runtime');
+    const taskProvider = new WrenTaskProvider(runtimeCollection);
+    context.subscriptions.push(
+        runtimeCollection,
+        vscode.tasks.registerTaskProvider(WREN_TASK_TYPE, taskProvider),
+        vscode.window.registerTerminalLinkProvider(new WrenTerminalLinkProvider(taskProvider)),
+        vscode.commands.registerCommand('wren.runCurrentFile', async () => {
+            const document = vscode.window.activeTextEditor?.document;
+            if (!document || document.languageId !== 'wren') {
+                vscode.window.showWarningMessage('Open a Wren file to run it.');
+                return;
+            }
+            if (document.isUntitled || (document.isDirty && !(await document.save()))) {
+                vscode.window.showWarningMessage('Save the file before running it.');
+                return;
+            }
+            await vscode.tasks.executeTask(taskProvider.taskForFile(document.uri));
+        }),
+        // Line numbers in a runtime error no longer hold once the file is edited
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.contentChanges.length > 0 && runtimeCollection.has(event.document.uri)) {
+                runtimeCollection.delete(event.document.uri);
+            }
+        })
+    );
+
+    // --- Debugging: attach to a Wren host over the socket protocol ---
+    context.subscriptions.push(
+        vscode.debug.registerDebugConfigurationProvider(WREN_DEBUG_TYPE, new WrenDebugConfigurationProvider()),
+        vscode.debug.registerDebugAdapterDescriptorFactory(WREN_DEBUG_TYPE, {
+            createDebugAdapterDescriptor: session => new vscode.DebugAdapterInlineImplementation(
+                new WrenDebugSession(session.configuration as WrenAttachConfiguration, languageService)
+            ),
+        })
+    );
+
     // Analyze all currently open wren documents
     vscode.workspace.textDocuments.forEach(refreshDiagnostics);
 
@@ -69,8 +230,15 @@ export function activate(context: vscode.ExtensionContext) {
             clearTimeout(diagnosticTimer);
             diagnosticTimer = setTimeout(() => refreshDiagnostics(event.document), 300);
         }),
-        vscode.workspace.onDidOpenTextDocument(refreshDiagnostics),
-        vscode.workspace.onDidCloseTextDocument(doc => diagnosticCollection.delete(doc.uri))
+        vscode.workspace.onDidOpenTextDocument(document => {
+            // Files the service loads from disk are not open in an editor (unless
+            // a restored tab is waiting for them); in `workspace` scope their
+            // problems come from the background pass
+            if (!languageService.isLoading(document.uri) || hasEditorTab(document.uri.fsPath)) {
+                refreshDiagnostics(document);
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument(doc => workspaceDiagnostics.handleClose(doc))
     );
 }
 
@@ -82,7 +250,14 @@ class AnalyzerDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
     async provideDocumentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
         try {
             const index = await this.service.getFileIndex(document);
-            return index.classes.map(convertClassToSymbol);
+            const symbols = [
+                ...index.classes.map(convertClassToSymbol),
+                ...index.variables.map(convertVariableToSymbol),
+            ];
+            for (const run of groupConsecutiveImports(index.imports, symbols)) {
+                symbols.push(convertImportsToSymbol(run));
+            }
+            return symbols.sort((a, b) => a.range.start.compareTo(b.range.start));
         } catch {
             return [];
         }
@@ -96,29 +271,123 @@ class AnalyzerCompletionProvider implements vscode.CompletionItemProvider {
         document: vscode.TextDocument,
         position: vscode.Position,
         _token: vscode.CancellationToken,
-        _context: vscode.CompletionContext
+        context: vscode.CompletionContext
     ): Promise<vscode.CompletionItem[]> {
         try {
-            const aggregate = await this.service.getWorkspaceAggregate(document);
             const contextInfo = analyzeCompletionContext(document, position);
+            if (contextInfo.importPath !== undefined) {
+                return this.buildModuleCompletions(document, contextInfo);
+            }
+            // `"` and `/` only trigger completion inside import paths, not for
+            // string literals, division, or comments
+            if (context.triggerCharacter === '"' || context.triggerCharacter === '/') {
+                return [];
+            }
+            if (contextInfo.importFor) {
+                return this.buildImportNameCompletions(document, contextInfo);
+            }
+
+            const aggregate = await this.service.getWorkspaceAggregate(document);
 
             // Resolve type of lowercase receiver via AST type annotations / inference
             if (contextInfo.isMemberAccess && contextInfo.receiver && !contextInfo.receiverIsClass) {
                 const offset = document.offsetAt(position);
                 const resolution = this.service.getTypedLocals(document, offset);
 
-                if (contextInfo.receiver === 'this') {
-                    contextInfo.resolvedType = resolution.enclosingClass ?? undefined;
+                contextInfo.resolvedType = resolveReceiverType(contextInfo.receiver, resolution, aggregate) ?? undefined;
+            }
+
+            // Chained receivers: infer through return types, getters, operators and subscripts
+            if (contextInfo.receiverExpression) {
+                const resolution = this.service.getTypedLocals(document, document.offsetAt(position));
+                const inferred = inferReceiverType(contextInfo.receiverExpression, { aggregate, ...resolution });
+                if (inferred?.isClass) {
+                    contextInfo.receiver = inferred.className;
+                    contextInfo.receiverIsClass = true;
                 } else {
-                    contextInfo.resolvedType = resolution.locals.get(contextInfo.receiver);
+                    contextInfo.resolvedType = inferred?.className;
                 }
             }
 
-            return buildCompletionItems(aggregate, contextInfo);
+            const items = buildCompletionItems(aggregate, contextInfo);
+            if (!contextInfo.isMemberAccess) {
+                const index = await this.service.getFileIndex(document);
+                const module = this.service.getModule(document);
+                const visible = visibleBindingsAt(module, document.offsetAt(position));
+                items.unshift(...buildIdentifierItems(module, visible, index, contextInfo.range));
+            }
+            return items;
         } catch {
             return [];
         }
     }
+
+    /** Classes and top-level variables that `import "module" for ...` can name. */
+    private async buildImportNameCompletions(
+        document: vscode.TextDocument,
+        context: CompletionContext,
+    ): Promise<vscode.CompletionItem[]> {
+        const { moduleName, listed } = context.importFor!;
+        let classes: WrenClassSymbol[] = [];
+        let variables: WrenVariableSymbol[] = [];
+        if (isBuiltinModule(moduleName)) {
+            classes = getBuiltinClasses(moduleName) ?? [];
+        } else {
+            const resolved = this.service.resolveModulePath(document, moduleName);
+            const index = resolved ? await this.service.getFileIndexByPath(resolved) : undefined;
+            classes = index?.classes ?? [];
+            variables = index?.variables ?? [];
+        }
+
+        const items: vscode.CompletionItem[] = [];
+        for (const cls of classes) {
+            if (listed.includes(cls.name)) continue;
+            const item = new vscode.CompletionItem(cls.name, vscode.CompletionItemKind.Class);
+            item.range = context.range;
+            item.detail = cls.superclass ? `class ${cls.name} is ${cls.superclass}` : `class ${cls.name}`;
+            if (cls.documentation) {
+                item.documentation = new vscode.MarkdownString(cls.documentation);
+            }
+            items.push(item);
+        }
+        for (const variable of variables) {
+            if (listed.includes(variable.name)) continue;
+            const item = new vscode.CompletionItem(variable.name, vscode.CompletionItemKind.Variable);
+            item.range = context.range;
+            item.detail = variable.type ? `var ${variable.name}: ${variable.type}` : `var ${variable.name}`;
+            items.push(item);
+        }
+        return items;
+    }
+
+    private async buildModuleCompletions(
+        document: vscode.TextDocument,
+        context: CompletionContext,
+    ): Promise<vscode.CompletionItem[]> {
+        const candidates = await listModuleCandidates(
+            context.importPath!,
+            document.uri.fsPath,
+            this.service.getSearchPaths(document),
+        );
+        return candidates.map(candidate => {
+            const item = new vscode.CompletionItem(
+                candidate.label,
+                candidate.isFolder ? vscode.CompletionItemKind.Folder : vscode.CompletionItemKind.Module,
+            );
+            item.range = context.range;
+            if (candidate.isFolder) {
+                // Keep completing inside the folder
+                item.command = { command: 'editor.action.triggerSuggest', title: 'Re-trigger completions' };
+                item.detail = vscode.workspace.asRelativePath(candidate.fsPath!);
+            } else if (candidate.fsPath) {
+                const resolved = this.service.resolveModulePath(document, candidate.moduleName) ?? candidate.fsPath;
+                item.detail = vscode.workspace.asRelativePath(resolved);
+            } else {
+                item.detail = 'built-in module';
+            }
+            return item;
+        });
+    }
 }
 
 class AnalyzerSignatureHelpProvider implements vscode.SignatureHelpProvider {
@@ -168,14 +437,14 @@ function convertClassToSymbol(cls: WrenClassSymbol): vscode.DocumentSymbol {
     }
 
     const addMethod = (method: WrenMethodSymbol, isStatic: boolean) => {
-        const detail = isStatic ? 'static' : 'method';
+        const [kind, label] = memberKind(method);
         classSymbol.children!.push(
             new vscode.DocumentSymbol(
                 method.name,
-                detail,
-                vscode.SymbolKind.Method,
+                isStatic ? `static ${label}` : label,
+                kind,
                 method.range,
-                method.range
+                method.selectionRange ?? method.range
             )
         );
     };
@@ -186,9 +455,90 @@ function convertClassToSymbol(cls: WrenClassSymbol): vscode.DocumentSymbol {
     return classSymbol;
 }
 
+/** Outline kind and label of a class member. */
+function memberKind(method: WrenMethodSymbol): [vscode.SymbolKind, string] {
+    if (method.isConstructor) {
+        return [vscode.SymbolKind.Constructor, 'constructor'];
+    }
+    if (method.name.startsWith('[')) {
+        return [vscode.SymbolKind.Array, method.name.endsWith('=') ? 'subscript setter' : 'subscript'];
+    }
+    if (!/^[A-Za-z_]/.test(method.name)) {
+        return [vscode.SymbolKind.Operator, 'operator'];
+    }
+    if (method.name.endsWith('=')) {
+        return [vscode.SymbolKind.Property, 'setter'];
+    }
+    return method.isGetter
+        ? [vscode.SymbolKind.Property, 'getter']
+        : [vscode.SymbolKind.Method, 'method'];
+}
+
+function convertVariableToSymbol(variable: WrenVariableSymbol): vscode.DocumentSymbol {
+    if (variable.fnParams) {
+        return new vscode.DocumentSymbol(
+            variable.name,
+            `Fn(${variable.fnParams.join(', ')})`,
+            vscode.SymbolKind.Function,
+            variable.declarationRange,
+            variable.range
+        );
+    }
+    return new vscode.DocumentSymbol(
+        variable.name,
+        variable.type ?? '',
+        vscode.SymbolKind.Variable,
+        variable.declarationRange,
+        variable.range
+    );
+}
+
+/**
+ * Import statements split into runs with no other symbol between them.  Wren
+ * allows imports anywhere, and one group spanning classes or variables would
+ * overlap them in the outline and breadcrumbs.
+ */
+function groupConsecutiveImports(imports: WrenImportSymbol[], others: vscode.DocumentSymbol[]): WrenImportSymbol[][] {
+    const sorted = [...imports].sort((a, b) => a.declarationRange.start.compareTo(b.declarationRange.start));
+    const runs: WrenImportSymbol[][] = [];
+    for (const imp of sorted) {
+        const run = runs[runs.length - 1];
+        const last = run?.[run.length - 1];
+        const separated = !last || others.some(symbol =>
+            symbol.range.start.isAfterOrEqual(last.declarationRange.end) &&
+            symbol.range.start.isBefore(imp.declarationRange.start));
+        if (separated) {
+            runs.push([imp]);
+        } else {
+            run.push(imp);
+        }
+    }
+    return runs;
+}
+
+/** A run of consecutive import statements, grouped under one "imports" node. */
+function convertImportsToSymbol(imports: WrenImportSymbol[]): vscode.DocumentSymbol {
+    const range = new vscode.Range(imports[0].declarationRange.start, imports[imports.length - 1].declarationRange.end);
+    const group = new vscode.DocumentSymbol('imports', '', vscode.SymbolKind.Namespace, range, imports[0].declarationRange);
+    group.children = imports.map(imp => new vscode.DocumentSymbol(
+        imp.moduleName,
+        imp.variables ? `for ${imp.variables.join(', ')}` : '',
+        vscode.SymbolKind.Module,
+        imp.declarationRange,
+        imp.range
+    ));
+    return group;
+}
+
 interface CompletionContext {
+    /** Text typed so far inside an `import "..."` string */
+    importPath?: string;
+    /** Cursor is in the name list of `import "module" for ...` */
+    importFor?: { moduleName: string; listed: string[] };
     isMemberAccess: boolean;
     receiver?: string;
+    /** Receiver that is not a plain identifier (`a.b(1)[0]`), typed by inference */
+    receiverExpression?: string;
     receiverIsClass: boolean;
     resolvedType?: string;
     range: vscode.Range;
@@ -197,12 +547,46 @@ interface CompletionContext {
 function analyzeCompletionContext(document: vscode.TextDocument, position: vscode.Position): CompletionContext {
     const line = document.lineAt(position.line).text;
     const beforeCursor = line.slice(0, position.character);
-    const memberMatch = /([A-Za-z_][A-Za-z0-9_]*)\.([A-Za-z_][A-Za-z0-9_]*)?$/.exec(beforeCursor);
-    if (memberMatch) {
-        const receiver = memberMatch[1];
-        const fragment = memberMatch[2] ?? '';
+    const importMatch = /\bimport\s+"([^"]*)$/.exec(beforeCursor);
+    if (importMatch) {
+        // Replace only the last path segment
+        const typed = importMatch[1];
+        const segment = typed.slice(typed.lastIndexOf('/') + 1);
+        return {
+            importPath: typed,
+            isMemberAccess: false,
+            receiverIsClass: false,
+            range: new vscode.Range(position.translate(0, -segment.length), position)
+        };
+    }
+
+    // The name list may continue over several lines
+    const listStart = new vscode.Position(Math.max(0, position.line - 10), 0);
+    const beforeList = document.getText(new vscode.Range(listStart, position));
+    const forMatch = /\bimport\s+"([^"]*)"\s+for\s+((?:[A-Za-z_][A-Za-z0-9_]*\s*,\s*)*)([A-Za-z_][A-Za-z0-9_]*)?$/.exec(beforeList);
+    if (forMatch) {
+        const fragment = forMatch[3] ?? '';
+        return {
+            importFor: {
+                moduleName: forMatch[1],
+                listed: forMatch[2].split(',').map(name => name.trim()).filter(name => name.length > 0),
+            },
+            isMemberAccess: false,
+            receiverIsClass: false,
+            range: new vscode.Range(position.translate(0, -fragment.length), position)
+        };
+    }
+
+    const memberMatch = /\.([A-Za-z_][A-Za-z0-9_]*)?$/.exec(beforeCursor);
+    const receiver = memberMatch ? extractReceiverText(beforeCursor.slice(0, memberMatch.index)) : null;
+    // Skip number literals, where the dot is usually a decimal point
+    if (memberMatch && receiver && !/^[0-9.]+$/.test(receiver)) {
+        const fragment = memberMatch[1] ?? '';
         const start = position.character - fragment.length;
         const range = new vscode.Range(new vscode.Position(position.line, start), position);
+        if (!isSimpleReceiver(receiver)) {
+            return { isMemberAccess: true, receiverExpression: receiver, receiverIsClass: false, range };
+        }
         return {
             isMemberAccess: true,
             receiver,
@@ -268,16 +652,70 @@ function buildCompletionItems(aggregate: AggregatedWorkspaceIndex, context: Comp
     for (const cls of aggregate.classes.values()) {
         const item = new vscode.CompletionItem(cls.name, vscode.CompletionItemKind.Class);
         item.range = context.range;
+        if (cls.documentation) {
+            item.documentation = new vscode.MarkdownString(cls.documentation);
+        }
         register(`class:${cls.name}`, item);
     }
 
     return items;
 }
 
+/**
+ * Locals, parameters, fields and module variables visible at the cursor.
+ * `sortText` keeps them in lexical order: innermost scope first, then fields
+ * of the enclosing class, then module variables.
+ */
+function buildIdentifierItems(module: Module, visible: VisibleScopes, index: WrenFileIndex, range: vscode.Range): vscode.CompletionItem[] {
+    const items: vscode.CompletionItem[] = [];
+    const seen = new Set<string>();
+    const add = (name: string, kind: vscode.CompletionItemKind, detail: string, sortGroup: string) => {
+        // Inner declarations shadow outer ones
+        if (seen.has(name)) return;
+        seen.add(name);
+        const item = new vscode.CompletionItem(name, kind);
+        item.detail = detail;
+        item.range = range;
+        item.sortText = `${sortGroup}_${name}`;
+        items.push(item);
+    };
+    const typed = (name: string, type: string | null) => type ? `${name}: ${type}` : name;
+
+    const moduleScope = visible.scopes[visible.scopes.length - 1] ?? [];
+    visible.scopes.slice(0, -1).forEach((scope, depth) => {
+        for (const binding of scope) {
+            const label = binding.kind === 'local' ? 'variable' : binding.kind === 'for' ? 'loop variable' : 'parameter';
+            add(binding.name, vscode.CompletionItemKind.Variable, `(${label}) ${typed(binding.name, binding.type)}`, `0${String(depth).padStart(2, '0')}`);
+        }
+    });
+
+    const { cls, method } = visible.ctx;
+    const classSymbol = cls ? index.classes.find(c => c.name === cls.name.text) : undefined;
+    const inStaticMethod = method?.staticKeyword != null;
+    const fieldTypes = cls ? inferFieldTypes(module, cls.name.text) : new Map<string, string>();
+    for (const field of classSymbol?.fields ?? []) {
+        // Static methods cannot reach instance fields
+        if (inStaticMethod && !field.isStatic) continue;
+        const label = field.isStatic ? 'static field' : 'field';
+        add(field.name, vscode.CompletionItemKind.Field, `(${label}) ${typed(field.name, fieldTypes.get(field.name) ?? null)}`, '1');
+    }
+
+    for (const binding of moduleScope) {
+        // Capitalized module names are listed with the classes
+        if (/^[A-Z]/.test(binding.name)) continue;
+        const label = binding.kind === 'import' ? `imported from "${binding.importModule}"` : 'module variable';
+        add(binding.name, vscode.CompletionItemKind.Variable, `(${label}) ${typed(binding.name, binding.type)}`, '2');
+    }
+    return items;
+}
+
 function createMethodCompletion(method: WrenMethodSymbol, range: vscode.Range): vscode.CompletionItem {
     const item = new vscode.CompletionItem(method.name, method.isStatic ? vscode.CompletionItemKind.Function : vscode.CompletionItemKind.Method);
     item.detail = method.detail;
     item.range = range;
+    if (method.documentation) {
+        item.documentation = new vscode.MarkdownString(method.documentation);
+    }
     if (method.params.length) {
         const snippetParams = method.params.map((param, index) => `\${${index + 1}:${param}}`).join(', ');
         item.insertText = new vscode.SnippetString(`${method.name}(${snippetParams})`);
@@ -350,14 +788,26 @@ function analyzeSignatureContext(document: vscode.TextDocument, position: vscode
 
 function buildSignatures(aggregate: AggregatedWorkspaceIndex, context: SignatureContext): vscode.SignatureInformation[] {
     const signatures: vscode.SignatureInformation[] = [];
+    // Inherited methods appear in every subclass bucket; list each one once
+    const seen = new Set<WrenMethodSymbol>();
     const pushMethods = (methods: Map<string, WrenMethodSymbol[]>) => {
         const overloads = methods.get(context.methodName);
         if (!overloads) {
             return;
         }
         overloads.forEach(method => {
+            if (seen.has(method)) {
+                return;
+            }
+            seen.add(method);
             const signature = new vscode.SignatureInformation(method.detail);
-            signature.parameters = method.params.map(param => new vscode.ParameterInformation(param));
+            if (method.documentation) {
+                signature.documentation = new vscode.MarkdownString(method.documentation);
+            }
+            signature.parameters = method.params.map(param => {
+                const paramDoc = method.paramDocs?.[param];
+                return new vscode.ParameterInformation(param, paramDoc ? new vscode.MarkdownString(paramDoc) : undefined);
+            });
             signatures.push(signature);
         });
     };
@@ -381,15 +831,19 @@ function buildSignatures(aggregate: AggregatedWorkspaceIndex, context: Signature
 // =============================================================================
 
 interface SymbolContext {
-    kind: 'method-on-class' | 'method-on-instance' | 'class-name' | 'field' | 'this' | 'standalone';
+    kind: 'method-on-class' | 'method-on-instance' | 'method-on-expression' | 'class-name' | 'field' | 'this' | 'standalone';
+    /** Receiver identifier, or the receiver expression text for `method-on-expression` */
     receiver?: string;
 }
 
 function analyzeSymbolContext(textBeforeWord: string, word: string): SymbolContext {
     // Check for dot-access: "receiver.word"
-    const dotMatch = /([A-Za-z_][A-Za-z0-9_]*)\.\s*$/.exec(textBeforeWord);
-    if (dotMatch) {
-        const receiver = dotMatch[1];
+    const dotMatch = /\.\s*$/.exec(textBeforeWord);
+    const receiver = dotMatch ? extractReceiverText(textBeforeWord.slice(0, dotMatch.index)) : null;
+    if (receiver) {
+        if (!isSimpleReceiver(receiver)) {
+            return { kind: 'method-on-expression', receiver };
+        }
         if (/^[A-Z]/.test(receiver)) {
             return { kind: 'method-on-class', receiver };
         }
@@ -407,6 +861,25 @@ function analyzeSymbolContext(textBeforeWord: string, word: string): SymbolConte
     return { kind: 'standalone' };
 }
 
+/** Resolve the class of a lowercase receiver: `this`, `super`, a local, or a getter on `this`. */
+function resolveReceiverType(
+    receiver: string,
+    resolution: TypeResolution,
+    aggregate: AggregatedWorkspaceIndex,
+): string | null {
+    if (receiver === 'this') {
+        return resolution.enclosingClass;
+    }
+    if (receiver === 'super') {
+        return resolution.enclosingClass
+            ? aggregate.classes.get(resolution.enclosingClass)?.superclass ?? null
+            : null;
+    }
+    return resolution.locals.get(receiver)
+        ?? inferReceiverType(receiver, { aggregate, ...resolution })?.className
+        ?? null;
+}
+
 function tokenToRange(document: vscode.TextDocument, token: Token): vscode.Range {
     return new vscode.Range(
         document.positionAt(token.start),
@@ -450,21 +923,27 @@ class WrenHoverProvider implements vscode.HoverProvider {
 
             switch (ctx.kind) {
                 case 'class-name':
-                    return this.hoverClass(word, document);
+                    return this.hoverClass(word, document, aggregate);
 
                 case 'method-on-class':
                     return this.hoverMethod(ctx.receiver!, word, true, aggregate);
 
                 case 'method-on-instance': {
-                    const receiverType = ctx.receiver === 'this'
-                        ? resolution.enclosingClass
-                        : resolution.locals.get(ctx.receiver!);
+                    const receiverType = resolveReceiverType(ctx.receiver!, resolution, aggregate);
                     if (receiverType) {
                         return this.hoverMethod(receiverType, word, false, aggregate);
                     }
                     return null;
                 }
 
+                case 'method-on-expression': {
+                    const inferred = inferReceiverType(ctx.receiver!, { aggregate, ...resolution });
+                    if (inferred) {
+                        return this.hoverMethod(inferred.className, word, inferred.isClass, aggregate);
+                    }
+                    return null;
+                }
+
                 case 'this':
                     if (resolution.enclosingClass) {
                         return new vscode.Hover(wrenCodeBlock(`this: ${resolution.enclosingClass}`), wordRange);
@@ -488,10 +967,13 @@ class WrenHoverProvider implements vscode.HoverProvider {
                 case 'standalone': {
                     // Check if it's a known class
                     if (aggregate.classes.has(word)) {
-                        return this.hoverClass(word, document);
+                        return this.hoverClass(word, document, aggregate);
                     }
                     // Check if it's a typed variable
-                    const varType = resolution.locals.get(word);
+                    const varType = resolution.locals.get(word)
+                        ?? (resolution.initializers.has(word)
+                            ? inferReceiverType(word, { aggregate, ...resolution })?.className
+                            : undefined);
                     if (varType) {
                         return new vscode.Hover(wrenCodeBlock(`(variable) ${word}: ${varType}`), wordRange);
                     }
@@ -503,14 +985,33 @@ class WrenHoverProvider implements vscode.HoverProvider {
         }
     }
 
-    private hoverClass(className: string, document: vscode.TextDocument): vscode.Hover | null {
+    private hoverClass(
+        className: string,
+        document: vscode.TextDocument,
+        aggregate: AggregatedWorkspaceIndex,
+    ): vscode.Hover | null {
+        const withDocs = (signature: string) => {
+            const md = wrenCodeBlock(signature);
+            const bucket = aggregate.classes.get(className);
+            const notes: string[] = [];
+            if (bucket?.documentation) {
+                notes.push(bucket.documentation);
+            }
+            // The full chain says more than `is Parent` for deep hierarchies
+            if (bucket && bucket.ancestors.length > 1) {
+                notes.push([className, ...bucket.ancestors].map(name => `\`${name}\``).join(' → '));
+            }
+            md.appendMarkdown(notes.join('\n\n'));
+            return new vscode.Hover(md);
+        };
+
         // Try user-defined class (check AST for superclass)
         const module = this.service.getModule(document);
         for (const stmt of module.statements) {
             if (stmt.kind === 'ClassStmt' && (stmt as ClassStmt).name.text === className) {
                 const cls = stmt as ClassStmt;
                 const superPart = cls.superclass ? ` is ${cls.superclass.text}` : '';
-                return new vscode.Hover(wrenCodeBlock(`class ${className}${superPart}`));
+                return withDocs(`class ${className}${superPart}`);
             }
         }
         // Try core registry for superclass info
@@ -518,10 +1019,10 @@ class WrenHoverProvider implements vscode.HoverProvider {
         const info = registry.get(className);
         if (info) {
             const superPart = info.superclass ? ` is ${info.superclass}` : '';
-            return new vscode.Hover(wrenCodeBlock(`class ${className}${superPart}`));
+            return withDocs(`class ${className}${superPart}`);
         }
         // Fallback: class exists in aggregate but no superclass info
-        return new vscode.Hover(wrenCodeBlock(`class ${className}`));
+        return withDocs(`class ${className}`);
     }
 
     private hoverMethod(
@@ -537,98 +1038,675 @@ class WrenHoverProvider implements vscode.HoverProvider {
         if (!overloads || overloads.length === 0) return null;
 
         const details = overloads.map(m => m.detail).join('\n');
-        return new vscode.Hover(wrenCodeBlock(details));
+        const md = wrenCodeBlock(details);
+        const notes: string[] = [];
+        // Overloads often share one comment; show each distinct one once
+        for (const documentation of new Set(overloads.map(m => m.documentation))) {
+            if (documentation) notes.push(documentation);
+        }
+        // Inherited members: say which ancestor declares them
+        const declaringClasses = [...new Set(overloads.map(m => m.className))].filter(name => name !== className);
+        for (const declaringClass of declaringClasses) {
+            const declared = overloads.find(m => m.className === declaringClass)!;
+            const where = declared.uri ? ` (${vscode.workspace.asRelativePath(declared.uri)})` : '';
+            notes.push(`Inherited from \`${declaringClass}\`${where}`);
+        }
+        md.appendMarkdown(notes.join('\n\n---\n\n'));
+        return new vscode.Hover(md);
     }
 }
 
 // =============================================================================
-// Definition Provider
+// Missing Import Quick Fix
 // =============================================================================
 
-class WrenDefinitionProvider implements vscode.DefinitionProvider {
-    constructor(private readonly service: WrenLanguageService) {}
+class WrenImportQuickFixProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
 
-    async provideDefinition(
+    constructor(
+        private readonly service: WrenLanguageService,
+        private readonly symbolIndex: WorkspaceSymbolIndex,
+    ) {}
+
+    async provideCodeActions(
         document: vscode.TextDocument,
-        position: vscode.Position,
-    ): Promise<vscode.Definition | null> {
-        try {
-            const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z_][A-Za-z0-9_]*/);
-            if (!wordRange) {
-                // Maybe cursor is on an import path string
-                return this.findImportPathDefinition(document, position);
+        _range: vscode.Range,
+        context: vscode.CodeActionContext,
+    ): Promise<vscode.CodeAction[]> {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (String(diagnostic.code) !== 'undefined-variable') continue;
+            const name = document.getText(diagnostic.range);
+            if (!/^[A-Z][A-Za-z0-9_]*$/.test(name)) continue;
+
+            for (const moduleName of await this.findModulesDeclaring(document, name)) {
+                const action = new vscode.CodeAction(`Import ${name} from '${moduleName}'`, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.insert(document.uri, ...this.importEdit(document, moduleName, name));
+                actions.push(action);
             }
-            const word = document.getText(wordRange);
+        }
+        if (actions.length === 1) {
+            actions[0].isPreferred = true;
+        }
+        return actions;
+    }
 
-            const line = document.lineAt(position.line).text;
-            const beforeWord = line.slice(0, wordRange.start.character);
-            const ctx = analyzeSymbolContext(beforeWord, word);
-            const offset = document.offsetAt(position);
+    /** Module names, shortest first per file, of every module that declares the class. */
+    private async findModulesDeclaring(document: vscode.TextDocument, className: string): Promise<string[]> {
+        const names: string[] = [];
+        for (const moduleName of BUILTIN_MODULE_NAMES) {
+            if (getBuiltinClasses(moduleName)?.some(cls => cls.name === className)) {
+                names.push(moduleName);
+            }
+        }
+        for (const fsPath of await this.symbolIndex.findClassDeclarations(className)) {
+            if (fsPath === document.uri.fsPath) continue;
+            const moduleName = this.service.moduleNameFor(document, fsPath);
+            if (moduleName && !names.includes(moduleName)) {
+                names.push(moduleName);
+            }
+        }
+        return names;
+    }
 
-            switch (ctx.kind) {
-                case 'class-name':
-                    return this.findClassDefinition(document, word);
+    /** Add the name to an existing import of the module, or insert a new import line. */
+    private importEdit(document: vscode.TextDocument, moduleName: string, name: string): [vscode.Position, string] {
+        const module = this.service.getModule(document);
+        const targetPath = isBuiltinModule(moduleName) ? null : this.service.resolveModulePath(document, moduleName);
+        let lastImport: Token | null = null;
 
-                case 'method-on-class':
-                    return this.findMethodDefinition(document, ctx.receiver!, word, true);
+        for (const stmt of module.statements) {
+            if (stmt.kind !== 'ImportStmt') continue;
+            const importedName = stripQuotes(stmt.path.text);
+            const variables: Token[] = stmt.variables ?? [];
+            lastImport = variables.length > 0 ? variables[variables.length - 1] : stmt.path;
+
+            const sameModule = importedName === moduleName
+                || (targetPath !== null && this.service.resolveModulePath(document, importedName) === targetPath);
+            if (!sameModule) continue;
+            if (variables.length > 0) {
+                const last = variables[variables.length - 1];
+                return [document.positionAt(last.start + last.length), `, ${name}`];
+            }
+            return [document.positionAt(stmt.path.start + stmt.path.length), ` for ${name}`];
+        }
 
-                case 'method-on-instance': {
-                    const resolution = this.service.getTypedLocals(document, offset);
-                    const receiverType = ctx.receiver === 'this'
-                        ? resolution.enclosingClass
-                        : resolution.locals.get(ctx.receiver!);
-                    if (receiverType) {
-                        return this.findMethodDefinition(document, receiverType, word, false);
-                    }
-                    return null;
-                }
+        const statement = `import "${moduleName}" for ${name}`;
+        const line = lastImport ? document.positionAt(lastImport.start).line + 1 : 0;
+        if (line >= document.lineCount) {
+            // The last import is on the final line, which has no newline
+            return [document.lineAt(document.lineCount - 1).range.end, `\n${statement}`];
+        }
+        return [new vscode.Position(line, 0), `${statement}\n`];
+    }
+}
 
-                case 'field':
-                    return this.findFieldDefinition(document, word, offset);
+// =============================================================================
+// Call Hierarchy Provider
+// =============================================================================
 
-                case 'standalone': {
-                    // Try variable declaration first
-                    const varDef = this.findVariableDeclaration(document, word, offset);
-                    if (varDef) return varDef;
-                    // Try class name
-                    return this.findClassDefinition(document, word);
-                }
+class WrenCallHierarchyProvider implements vscode.CallHierarchyProvider {
+    constructor(private readonly service: WrenLanguageService) {}
 
-                default:
-                    return null;
-            }
-        } catch {
+    async prepareCallHierarchy(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+    ): Promise<vscode.CallHierarchyItem | null> {
+        const target = findSymbolTarget(this.service.getModule(document), document.offsetAt(position));
+        if (target?.kind !== 'method' || target.className === null) {
             return null;
         }
+        const aggregate = await this.service.getWorkspaceAggregate(document);
+        const declared = findMethodSymbol(aggregate, target);
+        return declared ? methodSymbolItem(declared) : null;
     }
 
-    private async findClassDefinition(document: vscode.TextDocument, className: string): Promise<vscode.Location | null> {
-        // Check current file
-        const index = await this.service.getFileIndex(document);
-        const cls = index.classes.find(c => c.name === className);
-        if (cls && !isBuiltinSymbol(cls)) {
-            return new vscode.Location(cls.uri!, cls.selectionRange);
+    async provideCallHierarchyIncomingCalls(
+        item: vscode.CallHierarchyItem,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.CallHierarchyIncomingCall[]> {
+        const origin = await this.targetOf(item);
+        if (!origin) return [];
+        const aggregate = await this.service.getWorkspaceAggregate(origin.document);
+        const options = {
+            isSubtype: (type: string, base: string) => aggregate.classes.get(type)?.ancestors.includes(base) ?? false,
+            aggregate,
+        };
+
+        const calls: vscode.CallHierarchyIncomingCall[] = [];
+        for (const fsPath of await this.service.getRelatedFiles(origin.document)) {
+            if (token.isCancellationRequested) break;
+            const file = await this.service.getAnalyzedFile(fsPath);
+            if (!file) continue;
+            const groups = findCallers(file.module, origin.target, options);
+            const layout = groups.length > 0 ? new SourceLayout(file.document.getText()) : null;
+            for (const group of groups) {
+                const caller = group.method && group.cls
+                    ? methodDeclarationItem(file.document, layout!, group.cls, group.method)
+                    : moduleItem(file.document);
+                if (!group.certain) {
+                    caller.detail = `${caller.detail} · possible call (receiver type unknown)`;
+                }
+                calls.push(new vscode.CallHierarchyIncomingCall(caller, group.tokens.map(t => tokenToRange(file.document, t))));
+            }
         }
+        return calls;
+    }
 
-        // Check imports
-        return this.findInImports(document, index, className);
+    async provideCallHierarchyOutgoingCalls(item: vscode.CallHierarchyItem): Promise<vscode.CallHierarchyOutgoingCall[]> {
+        const origin = await this.targetOf(item);
+        if (!origin) return [];
+        const aggregate = await this.service.getWorkspaceAggregate(origin.document);
+        const nameOffset = origin.document.offsetAt(item.selectionRange.start);
+
+        // Group call sites by the method they reach
+        const callees = new Map<string, { item: vscode.CallHierarchyItem; ranges: vscode.Range[] }>();
+        const add = (callee: vscode.CallHierarchyItem, range: vscode.Range) => {
+            const key = `${callee.uri.toString()}#${callee.selectionRange.start.line}:${callee.selectionRange.start.character}`;
+            const entry = callees.get(key) ?? { item: callee, ranges: [] };
+            entry.ranges.push(range);
+            callees.set(key, entry);
+        };
+
+        for (const site of findCallsFrom(origin.module, nameOffset, { aggregate })) {
+            const range = tokenToRange(origin.document, site.token);
+            const siteTarget: MethodTarget = {
+                kind: 'method',
+                className: site.receiver.type,
+                name: site.methodName,
+                arity: site.arity,
+                isStatic: site.receiver.isStatic,
+            };
+            if (siteTarget.className !== null) {
+                const declared = findMethodSymbol(aggregate, siteTarget);
+                if (declared) add(methodSymbolItem(declared), range);
+                continue;
+            }
+            // Unknown receiver: every workspace method with this name and arity is a candidate
+            for (const bucket of aggregate.classes.values()) {
+                const declared = findMethodSymbol(aggregate, { ...siteTarget, className: bucket.name });
+                if (declared && declared.className === bucket.name) {
+                    const callee = methodSymbolItem(declared);
+                    callee.detail = `${callee.detail} · possible call (receiver type unknown)`;
+                    add(callee, range);
+                }
+            }
+        }
+        return [...callees.values()].map(c => new vscode.CallHierarchyOutgoingCall(c.item, c.ranges));
     }
 
-    private async findMethodDefinition(
-        document: vscode.TextDocument,
-        className: string,
-        methodName: string,
-        isStatic: boolean,
-    ): Promise<vscode.Location | null> {
-        // Search current file
-        const index = await this.service.getFileIndex(document);
-        const localResult = this.findMethodInIndex(index, className, methodName, isStatic);
-        if (localResult) return localResult;
+    /** Re-resolve the method an item stands for from its declaration. */
+    private async targetOf(item: vscode.CallHierarchyItem) {
+        const file = await this.service.getAnalyzedFile(item.uri.fsPath);
+        if (!file) return null;
+        const target = findSymbolTarget(file.module, file.document.offsetAt(item.selectionRange.start));
+        return target?.kind === 'method' ? { ...file, target } : null;
+    }
+}
 
-        // Search imports
-        for (const imp of index.imports) {
-            if (isBuiltinModule(imp.moduleName)) continue;
-            const resolvedPath = this.service.resolveModulePath(document, imp.moduleName);
+/** The workspace declaration of a method, by name, arity and receiver class (including inherited methods). */
+function findMethodSymbol(aggregate: AggregatedWorkspaceIndex, target: MethodTarget): WrenMethodSymbol | null {
+    const bucket = target.className ? aggregate.classes.get(target.className) : undefined;
+    const overloads = (target.isStatic ? bucket?.staticMethods : bucket?.methods)?.get(target.name) ?? [];
+    const declared = overloads.find(m => !isBuiltinSymbol(m) && m.params.length === (target.arity ?? (target.name.endsWith('=') ? 1 : 0)));
+    return declared ?? null;
+}
+
+/** The nearest superclass method that `method` overrides (same name and arity), if any. */
+function findOverriddenMethod(
+    aggregate: AggregatedWorkspaceIndex,
+    className: string,
+    method: WrenMethodSymbol,
+): WrenMethodSymbol | null {
+    for (const ancestor of aggregate.classes.get(className)?.ancestors ?? []) {
+        const overloads = aggregate.classes.get(ancestor)?.methods.get(method.name) ?? [];
+        const base = overloads.find(m => m.params.length === method.params.length && !m.isConstructor);
+        if (base) return base;
+    }
+    return null;
+}
+
+function methodSymbolItem(method: WrenMethodSymbol): vscode.CallHierarchyItem {
+    return new vscode.CallHierarchyItem(
+        method.isConstructor ? vscode.SymbolKind.Constructor : vscode.SymbolKind.Method,
+        method.name,
+        method.className,
+        method.uri!,
+        method.range,
+        method.selectionRange ?? method.range,
+    );
+}
+
+function methodDeclarationItem(
+    document: vscode.TextDocument,
+    layout: SourceLayout,
+    cls: ClassStmt,
+    method: Method,
+): vscode.CallHierarchyItem {
+    const selectionRange = tokenToRange(document, method.name);
+    return new vscode.CallHierarchyItem(
+        method.constructKeyword ? vscode.SymbolKind.Constructor : vscode.SymbolKind.Method,
+        methodSymbolName(method),
+        cls.name.text,
+        document.uri,
+        new vscode.Range(document.positionAt(methodStart(method)), document.positionAt(layout.methodEnd(method))),
+        selectionRange,
+    );
+}
+
+/** Calls made from module-level code are attributed to the module itself. */
+function moduleItem(document: vscode.TextDocument): vscode.CallHierarchyItem {
+    const start = new vscode.Range(0, 0, 0, 0);
+    return new vscode.CallHierarchyItem(
+        vscode.SymbolKind.Module,
+        vscode.workspace.asRelativePath(document.uri),
+        'module-level code',
+        document.uri,
+        start,
+        start,
+    );
+}
+
+// =============================================================================
+// Type Hierarchy Provider
+// =============================================================================
+
+class WrenTypeHierarchyProvider implements vscode.TypeHierarchyProvider {
+    constructor(private readonly service: WrenLanguageService) {}
+
+    async prepareTypeHierarchy(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+    ): Promise<vscode.TypeHierarchyItem | null> {
+        const wordRange = document.getWordRangeAtPosition(position, /[A-Z][A-Za-z0-9_]*/);
+        if (!wordRange) return null;
+        const classes = await this.knownClasses(document);
+        const cls = classes.get(document.getText(wordRange));
+        return cls ? typeHierarchyItem(cls, document.uri) : null;
+    }
+
+    async provideTypeHierarchySupertypes(item: vscode.TypeHierarchyItem): Promise<vscode.TypeHierarchyItem[]> {
+        const classes = await this.knownClasses(await vscode.workspace.openTextDocument(item.uri));
+        const cls = classes.get(item.name);
+        const superclass = cls ? superclassOf(cls) : null;
+        const superSymbol = superclass ? classes.get(superclass) : undefined;
+        return superSymbol ? [typeHierarchyItem(superSymbol, item.uri)] : [];
+    }
+
+    async provideTypeHierarchySubtypes(item: vscode.TypeHierarchyItem): Promise<vscode.TypeHierarchyItem[]> {
+        const classes = await this.knownClasses(await vscode.workspace.openTextDocument(item.uri));
+        return [...classes.values()]
+            .filter(cls => cls.name !== item.name && superclassOf(cls) === item.name)
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(cls => typeHierarchyItem(cls, item.uri));
+    }
+
+    /** Workspace classes by name, falling back to core and built-in module classes. */
+    private async knownClasses(document: vscode.TextDocument): Promise<Map<string, WrenClassSymbol>> {
+        const classes = new Map<string, WrenClassSymbol>();
+        for (const cls of getAllBuiltinClasses()) {
+            classes.set(cls.name, cls);
+        }
+        for (const cls of await this.service.getWorkspaceClasses(document)) {
+            classes.set(cls.name, cls);
+        }
+        return classes;
+    }
+}
+
+/**
+ * Type hierarchy entry for a class.  Built-in classes have no source, so they
+ * point at `fallbackUri` (the file the hierarchy was opened from).
+ */
+function typeHierarchyItem(cls: WrenClassSymbol, fallbackUri: vscode.Uri): vscode.TypeHierarchyItem {
+    if (isBuiltinSymbol(cls)) {
+        const start = new vscode.Range(0, 0, 0, 0);
+        return new vscode.TypeHierarchyItem(vscode.SymbolKind.Class, cls.name, 'built-in', fallbackUri, start, start);
+    }
+    return new vscode.TypeHierarchyItem(
+        vscode.SymbolKind.Class,
+        cls.name,
+        vscode.workspace.asRelativePath(cls.uri!),
+        cls.uri!,
+        cls.range,
+        cls.selectionRange,
+    );
+}
+
+// =============================================================================
+// Inlay Hints Provider
+// =============================================================================
+
+class WrenInlayHintsProvider implements vscode.InlayHintsProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly configListener: vscode.Disposable;
+    readonly onDidChangeInlayHints = this.changeEmitter.event;
+
+    constructor(private readonly service: WrenLanguageService) {
+        this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('wren.inlayHints')) {
+                this.changeEmitter.fire();
+            }
+        });
+    }
+
+    dispose(): void {
+        this.configListener.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    async provideInlayHints(document: vscode.TextDocument, range: vscode.Range): Promise<vscode.InlayHint[]> {
+        const config = vscode.workspace.getConfiguration('wren.inlayHints', document.uri);
+        const options = {
+            variableTypes: config.get<boolean>('variableTypes', true),
+            parameterNames: config.get<boolean>('parameterNames', true),
+        };
+        if (!options.variableTypes && !options.parameterNames) {
+            return [];
+        }
+        // Hints on a half-parsed file would jump around while typing
+        const module = this.service.getCleanModule(document);
+        if (!module) {
+            return [];
+        }
+        const aggregate = await this.service.getWorkspaceAggregate(document);
+        return buildInlayHints(document, module, aggregate, range, options);
+    }
+}
+
+// =============================================================================
+// Code Lens Provider
+// =============================================================================
+
+/** A reference or subclass count, filled in when the lens scrolls into view. */
+class WrenCountLens extends vscode.CodeLens {
+    constructor(
+        range: vscode.Range,
+        readonly kind: 'references' | 'subclasses',
+        readonly document: vscode.TextDocument,
+        /** Position of the class or method name */
+        readonly position: vscode.Position,
+        readonly name: string,
+    ) {
+        super(range);
+    }
+}
+
+class WrenCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly configListener: vscode.Disposable;
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    constructor(private readonly service: WrenLanguageService) {
+        this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('wren.codeLens')) {
+                this.changeEmitter.fire();
+            }
+        });
+    }
+
+    dispose(): void {
+        this.configListener.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        const config = vscode.workspace.getConfiguration('wren.codeLens', document.uri);
+        const show = {
+            references: config.get<boolean>('references', true),
+            subclasses: config.get<boolean>('subclasses', true),
+            overrides: config.get<boolean>('overrides', true),
+        };
+        if (!show.references && !show.subclasses && !show.overrides) {
+            return [];
+        }
+
+        try {
+            const index = await this.service.getFileIndex(document);
+            // Overrides are plain lookups, so they are worked out up front
+            const aggregate = show.overrides ? await this.service.getWorkspaceAggregate(document) : null;
+            const lenses: vscode.CodeLens[] = [];
+
+            for (const cls of index.classes) {
+                const position = classNamePosition(document, cls);
+                if (show.references) {
+                    lenses.push(new WrenCountLens(cls.range, 'references', document, position, cls.name));
+                }
+                if (show.subclasses) {
+                    lenses.push(new WrenCountLens(cls.range, 'subclasses', document, position, cls.name));
+                }
+
+                for (const method of [...cls.staticMethods, ...cls.methods]) {
+                    if (!method.selectionRange) continue;
+                    if (show.references && /^[A-Za-z_]/.test(method.name)) {
+                        lenses.push(new WrenCountLens(method.range, 'references', document, method.selectionRange.start, method.name));
+                    }
+                    const base = aggregate && !method.isStatic && !method.isConstructor
+                        ? findOverriddenMethod(aggregate, cls.name, method)
+                        : null;
+                    if (base) {
+                        const locations = isBuiltinSymbol(base)
+                            ? []
+                            : [new vscode.Location(base.uri!, base.selectionRange ?? base.range)];
+                        lenses.push(new vscode.CodeLens(method.range, peekCommand(
+                            `overrides ${base.className}.${base.name}`,
+                            document.uri,
+                            method.selectionRange.start,
+                            locations,
+                        )));
+                    }
+                }
+            }
+            return lenses;
+        } catch {
+            return [];
+        }
+    }
+
+    async resolveCodeLens(lens: vscode.CodeLens, token: vscode.CancellationToken): Promise<vscode.CodeLens> {
+        if (!(lens instanceof WrenCountLens)) {
+            return lens;
+        }
+        try {
+            const locations = lens.kind === 'references'
+                ? await this.findReferences(lens, token)
+                : await this.findSubclasses(lens);
+            const noun = lens.kind === 'references'
+                ? (locations.length === 1 ? 'reference' : 'references')
+                : (locations.length === 1 ? 'subclass' : 'subclasses');
+            lens.command = peekCommand(`${locations.length} ${noun}`, lens.document.uri, lens.position, locations);
+        } catch {
+            lens.command = { title: '', command: '' };
+        }
+        return lens;
+    }
+
+    private async findReferences(lens: WrenCountLens, token: vscode.CancellationToken): Promise<vscode.Location[]> {
+        const module = this.service.getModule(lens.document);
+        const target = findSymbolTarget(module, lens.document.offsetAt(lens.position));
+        return target ? findReferenceLocations(this.service, lens.document, target, false, token) : [];
+    }
+
+    private async findSubclasses(lens: WrenCountLens): Promise<vscode.Location[]> {
+        const classes = await this.service.getWorkspaceClasses(lens.document);
+        return classes
+            .filter(cls => cls.name !== lens.name && superclassOf(cls) === lens.name && cls.uri)
+            .map(cls => new vscode.Location(cls.uri!, cls.selectionRange));
+    }
+}
+
+/** A lens command that opens the locations in a peek view (inert when there are none). */
+function peekCommand(title: string, uri: vscode.Uri, position: vscode.Position, locations: vscode.Location[]): vscode.Command {
+    return locations.length > 0
+        ? { title, command: 'editor.action.showReferences', arguments: [uri, position, locations] }
+        : { title, command: '' };
+}
+
+/** Position of a class's name token, which follows the `class` keyword in its declaration line. */
+function classNamePosition(document: vscode.TextDocument, cls: WrenClassSymbol): vscode.Position {
+    const header = document.getText(cls.selectionRange);
+    const keyword = header.indexOf('class');
+    const offset = header.indexOf(cls.name, keyword === -1 ? 0 : keyword + 'class'.length);
+    return document.positionAt(document.offsetAt(cls.selectionRange.start) + Math.max(offset, 0));
+}
+
+// =============================================================================
+// Organize Imports
+// =============================================================================
+
+class WrenOrganizeImportsProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.SourceOrganizeImports];
+
+    constructor(private readonly service: WrenLanguageService) {}
+
+    provideCodeActions(document: vscode.TextDocument): vscode.CodeAction[] {
+        const edits = this.computeEdits(document);
+        if (!edits || edits.length === 0) {
+            return [];
+        }
+        const action = new vscode.CodeAction('Organize Imports', vscode.CodeActionKind.SourceOrganizeImports);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.set(document.uri, edits);
+        return [action];
+    }
+
+    /** `wren.organizeImports`: organize the imports of the active editor. */
+    async runCommand(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'wren') {
+            return;
+        }
+        const edits = this.computeEdits(editor.document);
+        if (edits === null) {
+            vscode.window.showInformationMessage(
+                'Imports were not organized: fix the syntax errors, and move comments out of the import block.',
+            );
+            return;
+        }
+        if (edits.length > 0) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.set(editor.document.uri, edits);
+            await vscode.workspace.applyEdit(edit);
+        }
+    }
+
+    /** Null when the file has parse errors or the import block cannot be rewritten. */
+    private computeEdits(document: vscode.TextDocument): vscode.TextEdit[] | null {
+        const module = this.service.getCleanModule(document);
+        return module
+            ? organizeImports(document, module, name => isBuiltinModule(name) ? null : this.service.resolveModulePath(document, name))
+            : null;
+    }
+}
+
+// =============================================================================
+// Definition Provider
+// =============================================================================
+
+class WrenDefinitionProvider implements vscode.DefinitionProvider {
+    constructor(private readonly service: WrenLanguageService) {}
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+    ): Promise<vscode.Definition | null> {
+        try {
+            const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z_][A-Za-z0-9_]*/);
+            if (!wordRange) {
+                // Maybe cursor is on an import path string
+                return this.findImportPathDefinition(document, position);
+            }
+            const word = document.getText(wordRange);
+
+            const line = document.lineAt(position.line).text;
+            const beforeWord = line.slice(0, wordRange.start.character);
+            const ctx = analyzeSymbolContext(beforeWord, word);
+            const offset = document.offsetAt(position);
+
+            switch (ctx.kind) {
+                case 'class-name':
+                    return this.findClassDefinition(document, word);
+
+                case 'method-on-class':
+                    return this.findMethodDefinition(document, ctx.receiver!, word, true);
+
+                case 'method-on-instance': {
+                    const resolution = this.service.getTypedLocals(document, offset);
+                    const aggregate = await this.service.getWorkspaceAggregate(document);
+                    const receiverType = resolveReceiverType(ctx.receiver!, resolution, aggregate);
+                    if (receiverType) {
+                        return this.findMethodDefinition(document, receiverType, word, false);
+                    }
+                    return null;
+                }
+
+                case 'method-on-expression': {
+                    const resolution = this.service.getTypedLocals(document, offset);
+                    const aggregate = await this.service.getWorkspaceAggregate(document);
+                    const inferred = inferReceiverType(ctx.receiver!, { aggregate, ...resolution });
+                    if (inferred) {
+                        return this.findMethodDefinition(document, inferred.className, word, inferred.isClass);
+                    }
+                    return null;
+                }
+
+                case 'field':
+                    return this.findFieldDefinition(document, word, offset);
+
+                case 'standalone': {
+                    // Try variable declaration first
+                    const varDef = this.findVariableDeclaration(document, word, offset);
+                    if (varDef) return varDef;
+                    // Try class name
+                    return this.findClassDefinition(document, word);
+                }
+
+                default:
+                    return null;
+            }
+        } catch {
+            return null;
+        }
+    }
+
+    private async findClassDefinition(document: vscode.TextDocument, className: string): Promise<vscode.Location | null> {
+        // Check current file
+        const index = await this.service.getFileIndex(document);
+        const cls = index.classes.find(c => c.name === className);
+        if (cls && !isBuiltinSymbol(cls)) {
+            return new vscode.Location(cls.uri!, cls.selectionRange);
+        }
+
+        // Check imports
+        return this.findInImports(document, index, className);
+    }
+
+    private async findMethodDefinition(
+        document: vscode.TextDocument,
+        className: string,
+        methodName: string,
+        isStatic: boolean,
+    ): Promise<vscode.Location | null> {
+        // The aggregate knows inherited methods and where they are declared
+        const aggregate = await this.service.getWorkspaceAggregate(document);
+        const bucket = aggregate.classes.get(className);
+        const overloads = (isStatic ? bucket?.staticMethods : bucket?.methods)?.get(methodName) ?? [];
+        const declared = overloads.find(m => !isBuiltinSymbol(m));
+        if (declared) {
+            return new vscode.Location(declared.uri!, declared.range);
+        }
+
+        // Search current file
+        const index = await this.service.getFileIndex(document);
+        const localResult = this.findMethodInIndex(index, className, methodName, isStatic);
+        if (localResult) return localResult;
+
+        // Search imports
+        for (const imp of index.imports) {
+            if (isBuiltinModule(imp.moduleName)) continue;
+            const resolvedPath = this.service.resolveModulePath(document, imp.moduleName);
             if (!resolvedPath) continue;
             const importedIndex = await this.service.getFileIndexByPath(resolvedPath);
             if (!importedIndex) continue;
@@ -650,7 +1728,7 @@ class WrenDefinitionProvider implements vscode.DefinitionProvider {
         const methods = isStatic ? cls.staticMethods : cls.methods;
         const method = methods.find(m => m.name === methodName);
         if (method) {
-            return new vscode.Location(cls.uri!, method.range);
+            return new vscode.Location(cls.uri!, method.selectionRange ?? method.range);
         }
         return null;
     }
@@ -684,19 +1762,9 @@ class WrenDefinitionProvider implements vscode.DefinitionProvider {
         const resolution = this.service.getTypedLocals(document, offset);
         if (!resolution.enclosingClass) return null;
         const module = this.service.getModule(document);
-        for (const stmt of module.statements) {
-            if (stmt.kind === 'ClassStmt') {
-                const cls = stmt as ClassStmt;
-                if (cls.name.text !== resolution.enclosingClass) continue;
-                // Search all method bodies for the first assignment to this field
-                for (const method of cls.methods) {
-                    if (!method.body) continue;
-                    const fieldToken = findFieldInBody(method.body, fieldName);
-                    if (fieldToken) {
-                        return new vscode.Location(document.uri, tokenToRange(document, fieldToken));
-                    }
-                }
-            }
+        const fieldToken = findFieldInClass(module, resolution.enclosingClass, fieldName);
+        if (fieldToken) {
+            return new vscode.Location(document.uri, tokenToRange(document, fieldToken));
         }
         return null;
     }
@@ -732,197 +1800,515 @@ class WrenDefinitionProvider implements vscode.DefinitionProvider {
 }
 
 // =============================================================================
-// Variable declaration finder (AST walk)
+// Reference Provider
 // =============================================================================
 
-function findDeclInModule(module: Module, name: string, offset: number, doc: vscode.TextDocument): vscode.Location | null {
-    for (const stmt of module.statements) {
-        const result = findDeclInStmt(stmt, name, offset, doc);
-        if (result) return result;
+class WrenReferenceProvider implements vscode.ReferenceProvider {
+    constructor(private readonly service: WrenLanguageService) {}
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.Location[] | null> {
+        try {
+            const module = this.service.getModule(document);
+            const target = findSymbolTarget(module, document.offsetAt(position));
+            if (!target) return null;
+            return await findReferenceLocations(this.service, document, target, context.includeDeclaration, token);
+        } catch {
+            return null;
+        }
     }
-    return null;
 }
 
-function findDeclInStmt(stmt: Stmt, name: string, offset: number, doc: vscode.TextDocument): vscode.Location | null {
-    switch (stmt.kind) {
-        case 'VarStmt':
-            if (stmt.name.text === name && stmt.name.start < offset) {
-                return new vscode.Location(doc.uri, tokenToRange(doc, stmt.name));
-            }
-            return null;
+/** Reference locations as Find All References lists them. */
+async function findReferenceLocations(
+    service: WrenLanguageService,
+    document: vscode.TextDocument,
+    target: SymbolTarget,
+    includeDeclaration: boolean,
+    token?: vscode.CancellationToken,
+): Promise<vscode.Location[]> {
+    let occurrences = await findWorkspaceOccurrences(service, document, target, token);
+
+    // Calls on receivers of unknown type are only listed when no other
+    // class declares a method of the same name, otherwise they are noise.
+    if (target.kind === 'method' && target.className !== null) {
+        const aggregate = await service.getWorkspaceAggregate(document);
+        if (isMethodNameShared(aggregate, target)) {
+            occurrences = occurrences.filter(o => o.occurrence.certain);
+        }
+    }
+
+    return occurrences
+        .filter(o => includeDeclaration || !o.occurrence.isDeclaration)
+        .map(o => o.location);
+}
+
+// =============================================================================
+// Document Highlight Provider
+// =============================================================================
 
-        case 'ClassStmt': {
-            const cls = stmt as ClassStmt;
-            const classStart = cls.foreignKeyword?.start ?? cls.classKeyword.start;
-            const classEnd = cls.rightBrace.start + cls.rightBrace.length;
-            if (offset < classStart || offset > classEnd) return null;
+class WrenDocumentHighlightProvider implements vscode.DocumentHighlightProvider {
+    constructor(private readonly service: WrenLanguageService) {}
 
-            for (const method of cls.methods) {
-                const result = findDeclInMethod(method, name, offset, doc);
-                if (result) return result;
+    async provideDocumentHighlights(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+    ): Promise<vscode.DocumentHighlight[] | null> {
+        try {
+            const module = this.service.getModule(document);
+            const target = findSymbolTarget(module, document.offsetAt(position));
+            if (!target) return null;
+
+            const aggregate = target.kind === 'method' ? await this.service.getWorkspaceAggregate(document) : undefined;
+            let occurrences = collectOccurrences(module, target, {
+                isSubtype: (type, base) => aggregate?.classes.get(type)?.ancestors.includes(base) ?? false,
+                aggregate,
+            });
+            // Same rule as Find All References for calls on unknown receivers
+            if (target.kind === 'method' && target.className !== null
+                && isMethodNameShared(aggregate!, target)) {
+                occurrences = occurrences.filter(o => o.certain);
             }
+
+            return occurrences.map(o => new vscode.DocumentHighlight(
+                tokenToRange(document, o.token),
+                o.isWrite || o.isDeclaration ? vscode.DocumentHighlightKind.Write : vscode.DocumentHighlightKind.Read,
+            ));
+        } catch {
             return null;
         }
+    }
+}
 
-        case 'ImportStmt':
-            if (stmt.variables) {
-                for (const v of stmt.variables) {
-                    if (v.text === name) {
-                        return new vscode.Location(doc.uri, tokenToRange(doc, v));
-                    }
-                }
-            }
-            return null;
+// =============================================================================
+// Folding & Selection Range Providers
+// =============================================================================
 
-        case 'ForStmt': {
-            const forStart = stmt.variable.start;
-            const forBody = stmt.body;
-            if (offset >= forStart && stmt.variable.text === name) {
-                return new vscode.Location(doc.uri, tokenToRange(doc, stmt.variable));
-            }
-            return findDeclInStmt(forBody, name, offset, doc);
+class WrenFoldingRangeProvider implements vscode.FoldingRangeProvider {
+    constructor(private readonly service: WrenLanguageService) {}
+
+    provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        try {
+            // A stale AST would not line up with the current text
+            const module = this.service.getCleanModule(document);
+            return buildFoldingRanges(document, module, new SourceLayout(document.getText()));
+        } catch {
+            return [];
         }
+    }
+}
 
-        case 'BlockStmt':
-            for (const s of stmt.statements) {
-                const result = findDeclInStmt(s, name, offset, doc);
-                if (result) return result;
-            }
-            return null;
+class WrenSelectionRangeProvider implements vscode.SelectionRangeProvider {
+    constructor(private readonly service: WrenLanguageService) {}
 
-        case 'IfStmt': {
-            const r1 = findDeclInStmt(stmt.thenBranch, name, offset, doc);
-            if (r1) return r1;
-            if (stmt.elseBranch) return findDeclInStmt(stmt.elseBranch, name, offset, doc);
-            return null;
+    provideSelectionRanges(document: vscode.TextDocument, positions: vscode.Position[]): vscode.SelectionRange[] {
+        try {
+            const module = this.service.getCleanModule(document);
+            const layout = new SourceLayout(document.getText());
+            return positions.map(position => buildSelectionRange(document, module, layout, position));
+        } catch {
+            return [];
         }
+    }
+}
+
+// =============================================================================
+// Rename Provider
+// =============================================================================
 
-        case 'WhileStmt':
-            return findDeclInStmt(stmt.body, name, offset, doc);
+class WrenRenameProvider implements vscode.RenameProvider {
+    constructor(private readonly service: WrenLanguageService) {}
 
-        default:
-            // Expression statement — check for block arguments
-            if (typeof stmt === 'object' && stmt !== null && 'kind' in stmt) {
-                return findDeclInExpr(stmt as Expr, name, offset, doc);
-            }
-            return null;
+    async prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+    ): Promise<{ range: vscode.Range; placeholder: string }> {
+        const { range } = await this.resolveTarget(document, position);
+        return { range, placeholder: document.getText(range) };
     }
-}
 
-function findDeclInMethod(method: Method, name: string, offset: number, doc: vscode.TextDocument): vscode.Location | null {
-    // Check method range — only search if cursor is within this method
-    const methodStart = method.foreignKeyword?.start ?? method.staticKeyword?.start ?? method.constructKeyword?.start ?? method.name.start;
-    // We don't have the closing brace token, so check body
-    if (offset < methodStart) return null;
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.WorkspaceEdit | null> {
+        const { target, range } = await this.resolveTarget(document, position);
+        const oldName = document.getText(range);
+        const problem = validateRenameName(target, newName);
+        if (problem) {
+            throw new Error(problem);
+        }
+
+        const occurrences = await findWorkspaceOccurrences(this.service, document, target, token);
+        if (!occurrences.some(o => o.occurrence.isDeclaration)) {
+            throw new Error(`Cannot rename '${oldName}': its declaration was not found in the workspace.`);
+        }
 
-    if (method.parameters) {
-        for (const param of method.parameters) {
-            if (param.name.text === name) {
-                return new vscode.Location(doc.uri, tokenToRange(doc, param.name));
+        // Calls on receivers of unknown type are left alone, but the user gets
+        // to see them before anything changes.
+        const uncertain = occurrences.filter(o => !o.occurrence.certain);
+        if (uncertain.length > 0) {
+            const detail = uncertain
+                .map(o => `${vscode.workspace.asRelativePath(o.location.uri)}:${o.location.range.start.line + 1}`)
+                .join('\n');
+            const proceed = 'Rename';
+            const choice = await vscode.window.showWarningMessage(
+                `${uncertain.length} call(s) to '${oldName}' have a receiver of unknown type and will not be renamed.`,
+                { modal: true, detail },
+                proceed,
+            );
+            if (choice !== proceed) {
+                return null;
             }
         }
-    }
-    if (method.subscriptParameters) {
-        for (const param of method.subscriptParameters) {
-            if (param.name.text === name) {
-                return new vscode.Location(doc.uri, tokenToRange(doc, param.name));
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const o of occurrences) {
+            if (o.occurrence.certain) {
+                edit.replace(o.location.uri, o.location.range, newName);
             }
         }
+        return edit;
     }
-    if (method.body) {
-        return findDeclInBody(method.body, name, offset, doc);
+
+    private async resolveTarget(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+    ): Promise<{ target: SymbolTarget; range: vscode.Range }> {
+        const range = document.getWordRangeAtPosition(position, /[A-Za-z_][A-Za-z0-9_]*/);
+        const module = this.service.getModule(document);
+        const target = range ? findSymbolTarget(module, document.offsetAt(position)) : null;
+        if (!range || !target) {
+            throw new Error('You cannot rename this element.');
+        }
+
+        if (target.kind === 'class' && isBuiltinClassName(target.name)) {
+            throw new Error(`Cannot rename built-in class '${target.name}'.`);
+        }
+        if (target.kind === 'method') {
+            if (target.className === null) {
+                throw new Error(`Cannot rename '${target.name}': the type of its receiver is unknown.`);
+            }
+            // Overriding a built-in method (`toString`) is renaming it too
+            const aggregate = await this.service.getWorkspaceAggregate(document);
+            const root = rootMethodTarget(target, aggregate);
+            const bucket = aggregate.classes.get(root.className!);
+            const overloads = [
+                ...(bucket?.methods.get(root.name) ?? []),
+                ...(bucket?.staticMethods.get(root.name) ?? []),
+            ];
+            if (overloads.length > 0 && overloads.every(isBuiltinSymbol)) {
+                throw new Error(`Cannot rename built-in method '${root.className}.${root.name}'.`);
+            }
+        }
+        return { target, range };
     }
-    return null;
 }
 
-function findDeclInBody(body: Body, name: string, offset: number, doc: vscode.TextDocument): vscode.Location | null {
-    // Check block parameters ({|x, y| ...})
-    if (body.parameters) {
-        for (const param of body.parameters) {
-            if (param.name.text === name) {
-                return new vscode.Location(doc.uri, tokenToRange(doc, param.name));
+function isBuiltinClassName(name: string): boolean {
+    return getAllBuiltinClasses().some(cls => cls.name === name);
+}
+
+/** Core classes plus those of the built-in `random` and `meta` modules. */
+function getAllBuiltinClasses(): WrenClassSymbol[] {
+    return [...CORE_CLASSES, ...BUILTIN_MODULE_NAMES.flatMap(name => getBuiltinClasses(name) ?? [])];
+}
+
+/** Check a new name against Wren's naming rules for the kind of symbol. Returns an error message, if any. */
+function validateRenameName(target: SymbolTarget, newName: string): string | null {
+    if (RESERVED_WORDS.has(newName)) {
+        return `'${newName}' is a reserved word.`;
+    }
+    switch (target.kind) {
+        case 'class':
+            return /^[A-Z][A-Za-z0-9_]*$/.test(newName)
+                ? null
+                : 'Class names must start with an uppercase letter.';
+        case 'field':
+            if (target.isStatic) {
+                return /^__[A-Za-z0-9][A-Za-z0-9_]*$/.test(newName)
+                    ? null
+                    : 'Static field names must start with two underscores.';
             }
+            return /^_[A-Za-z0-9][A-Za-z0-9_]*$/.test(newName)
+                ? null
+                : 'Field names must start with a single underscore.';
+        case 'method':
+            // Capitalized names would no longer resolve as implicit calls on `this`
+            return /^[a-z][A-Za-z0-9_]*$/.test(newName)
+                ? null
+                : 'Method names must start with a lowercase letter.';
+        case 'variable':
+            return /^[A-Za-z][A-Za-z0-9_]*$/.test(newName)
+                ? null
+                : 'Variable names must start with a letter.';
+    }
+}
+
+interface WorkspaceOccurrence {
+    location: vscode.Location;
+    occurrence: SymbolOccurrence;
+}
+
+/**
+ * Find every occurrence of a symbol across the files that can see it.
+ * Fields and locals stay within the current file; module variables follow
+ * `import ... for name` bindings; classes and methods search the whole
+ * import graph around the document.
+ */
+async function findWorkspaceOccurrences(
+    service: WrenLanguageService,
+    document: vscode.TextDocument,
+    target: SymbolTarget,
+    token?: vscode.CancellationToken,
+): Promise<WorkspaceOccurrence[]> {
+    const results: WorkspaceOccurrence[] = [];
+    const aggregate = target.kind === 'method' ? await service.getWorkspaceAggregate(document) : null;
+    const options = {
+        isSubtype: (type: string, base: string) => aggregate?.classes.get(type)?.ancestors.includes(base) ?? false,
+        aggregate: aggregate ?? undefined,
+    };
+    const collect = (doc: vscode.TextDocument, module: Module, fileTarget: SymbolTarget) => {
+        for (const occurrence of collectOccurrences(module, fileTarget, options)) {
+            results.push({ location: new vscode.Location(doc.uri, tokenToRange(doc, occurrence.token)), occurrence });
         }
+    };
+
+    if (target.kind === 'field'
+        || (target.kind === 'variable' && target.binding.kind !== 'module' && target.binding.kind !== 'import')) {
+        collect(document, service.getModule(document), target);
+        return results;
     }
-    if (body.statements) {
-        for (const s of body.statements) {
-            const result = findDeclInStmt(s, name, offset, doc);
-            if (result) return result;
+
+    if (target.kind === 'variable') {
+        // Module variable: start from the module that declares it
+        let originPath = document.uri.fsPath;
+        if (target.binding.kind === 'import' && target.binding.importModule) {
+            const resolved = service.resolveModulePath(document, target.binding.importModule);
+            if (!resolved) {
+                collect(document, service.getModule(document), target);
+                return results;
+            }
+            originPath = resolved;
+        }
+        const origin = await service.getAnalyzedFile(originPath);
+        const declaration = origin && findModuleVariable(origin.module, target.name);
+        if (!origin || !declaration) {
+            collect(document, service.getModule(document), target);
+            return results;
         }
+        collect(origin.document, origin.module, { ...target, declaration: declaration.token, binding: declaration });
+
+        for (const importerPath of await service.findImporters(originPath)) {
+            if (token?.isCancellationRequested) break;
+            const importer = await service.getAnalyzedFile(importerPath);
+            if (!importer) continue;
+            const binding = findModuleVariable(importer.module, target.name);
+            if (binding?.kind === 'import' && binding.importModule
+                && service.resolveModulePathForFile(importerPath, binding.importModule) === originPath) {
+                collect(importer.document, importer.module, { ...target, declaration: binding.token, binding });
+            }
+        }
+        return results;
     }
-    if (body.expression) {
-        return findDeclInExpr(body.expression, name, offset, doc);
+
+    for (const fsPath of await service.getRelatedFiles(document)) {
+        if (token?.isCancellationRequested) break;
+        const file = fsPath === document.uri.fsPath
+            ? { document, module: service.getModule(document) }
+            : await service.getAnalyzedFile(fsPath);
+        if (file) {
+            collect(file.document, file.module, target);
+        }
     }
-    return null;
+    return results;
 }
 
-function findDeclInExpr(expr: Expr, name: string, offset: number, doc: vscode.TextDocument): vscode.Location | null {
-    if (!expr || typeof expr !== 'object') return null;
-    switch (expr.kind) {
-        case 'CallExpr':
-            if (expr.blockArgument) {
-                return findDeclInBody(expr.blockArgument, name, offset, doc);
+/** Find the module-level `var` or `import ... for` binding with the given name. */
+function findModuleVariable(module: Module, name: string): ScopeBinding | null {
+    let found: ScopeBinding | null = null;
+    walkModule(module, {
+        declaration: binding => {
+            if (!found && binding.name === name && (binding.kind === 'module' || binding.kind === 'import')) {
+                found = binding;
             }
-            return null;
-        default:
-            return null;
+        },
+    });
+    return found;
+}
+
+/**
+ * True when a class outside the target method's family declares a method with
+ * the same name.  The family is the class that first declares the method, its
+ * ancestors, and the subclasses that inherit or override it.
+ */
+function isMethodNameShared(aggregate: AggregatedWorkspaceIndex, target: MethodTarget): boolean {
+    const root = rootMethodTarget(target, aggregate);
+    const className = root.className!;
+    const family = new Set([className]);
+    if (!root.isStatic) {
+        aggregate.classes.get(className)?.ancestors.forEach(ancestor => family.add(ancestor));
+    }
+    for (const bucket of aggregate.classes.values()) {
+        const methods = root.isStatic ? bucket.staticMethods : bucket.methods;
+        for (const method of methods.get(root.name) ?? []) {
+            const isSubclass = !root.isStatic && (aggregate.classes.get(method.className)?.ancestors.includes(className) ?? false);
+            if (!family.has(method.className) && !isSubclass) {
+                return true;
+            }
+        }
     }
+    return false;
 }
 
 // =============================================================================
-// Field finder (for go-to-definition on _field / __field)
+// Workspace Symbol Provider
 // =============================================================================
 
-function findFieldInBody(body: Body, fieldName: string): Token | null {
-    if (body.statements) {
-        for (const stmt of body.statements) {
-            const result = findFieldInStmt(stmt, fieldName);
-            if (result) return result;
+class WrenWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    constructor(private readonly index: WorkspaceSymbolIndex) {}
+
+    async provideWorkspaceSymbols(
+        query: string,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.SymbolInformation[]> {
+        try {
+            return await this.index.search(query, token);
+        } catch {
+            return [];
         }
     }
-    if (body.expression) {
-        return findFieldInExpr(body.expression, fieldName);
-    }
-    return null;
 }
 
-function findFieldInStmt(stmt: Stmt, fieldName: string): Token | null {
-    switch (stmt.kind) {
-        case 'BlockStmt':
-            for (const s of stmt.statements) {
-                const r = findFieldInStmt(s, fieldName);
-                if (r) return r;
-            }
-            return null;
-        case 'IfStmt': {
-            const r1 = findFieldInStmt(stmt.thenBranch, fieldName);
-            if (r1) return r1;
-            return stmt.elseBranch ? findFieldInStmt(stmt.elseBranch, fieldName) : null;
-        }
-        case 'WhileStmt':
-            return findFieldInStmt(stmt.body, fieldName);
-        case 'ForStmt':
-            return findFieldInStmt(stmt.body, fieldName);
-        default:
-            if (typeof stmt === 'object' && 'kind' in stmt) {
-                return findFieldInExpr(stmt as Expr, fieldName);
-            }
+// =============================================================================
+// Semantic Tokens Provider
+// =============================================================================
+
+class WrenSemanticTokensProvider implements
+    vscode.DocumentSemanticTokensProvider,
+    vscode.DocumentRangeSemanticTokensProvider {
+    constructor(private readonly service: WrenLanguageService) {}
+
+    provideDocumentSemanticTokens(document: vscode.TextDocument): Promise<vscode.SemanticTokens | null> {
+        return this.build(document);
+    }
+
+    provideDocumentRangeSemanticTokens(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+    ): Promise<vscode.SemanticTokens | null> {
+        return this.build(document, range);
+    }
+
+    private async build(document: vscode.TextDocument, range?: vscode.Range): Promise<vscode.SemanticTokens | null> {
+        try {
+            const module = this.service.getModule(document);
+            const aggregate = await this.service.getWorkspaceAggregate(document);
+            return buildSemanticTokens(document, module, {
+                isBuiltinClass: isBuiltinClassName,
+                isConstructor: (className, methodName) => {
+                    const bucket = aggregate.classes.get(className);
+                    const overloads = [
+                        ...(bucket?.staticMethods.get(methodName) ?? []),
+                        ...(bucket?.methods.get(methodName) ?? []),
+                    ];
+                    return overloads.some(m => m.isConstructor);
+                },
+            }, range);
+        } catch {
             return null;
+        }
     }
 }
 
-function findFieldInExpr(expr: Expr, fieldName: string): Token | null {
-    if (!expr || typeof expr !== 'object') return null;
-    if (expr.kind === 'FieldExpr' && expr.name.text === fieldName) {
-        return expr.name;
+// =============================================================================
+// Formatting Provider
+// =============================================================================
+
+class WrenFormattingProvider implements
+    vscode.DocumentFormattingEditProvider,
+    vscode.DocumentRangeFormattingEditProvider,
+    vscode.OnTypeFormattingEditProvider {
+    constructor(private readonly service: WrenLanguageService) {}
+
+    provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+    ): vscode.TextEdit[] {
+        return this.format(document, options);
+    }
+
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions,
+    ): vscode.TextEdit[] {
+        return this.format(document, options, range);
+    }
+
+    provideOnTypeFormattingEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        ch: string,
+        options: vscode.FormattingOptions,
+    ): vscode.TextEdit[] {
+        // After Enter, tidy the line that was just finished
+        const line = ch === '\n' ? position.line - 1 : position.line;
+        if (line < 0) return [];
+        return this.format(document, options, document.lineAt(line).range);
     }
-    if (expr.kind === 'StaticFieldExpr' && expr.name.text === fieldName) {
-        return expr.name;
+
+    private format(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+        range?: vscode.Range,
+    ): vscode.TextEdit[] {
+        try {
+            // Never reformat code that does not parse: the AST would be partial
+            const module = this.service.getCleanModule(document);
+            if (!module) return [];
+            return formatWren(document, module, getFormatOptions(document, options), range);
+        } catch {
+            return [];
+        }
     }
-    if (expr.kind === 'AssignmentExpr') {
-        const r = findFieldInExpr(expr.target, fieldName);
-        if (r) return r;
-        return findFieldInExpr(expr.value, fieldName);
+}
+
+function getFormatOptions(document: vscode.TextDocument, options: vscode.FormattingOptions): WrenFormatOptions {
+    const config = vscode.workspace.getConfiguration('wren.format', document.uri);
+    const indentSize = config.get<number | null>('indentSize', null) ?? options.tabSize;
+    return {
+        indentUnit: options.insertSpaces ? ' '.repeat(indentSize) : '\t',
+        braceStyle: config.get<'sameLine' | 'preserve'>('braceStyle', 'sameLine'),
+        blankLinesBetweenMethods: config.get<number>('blankLinesBetweenMethods', 1),
+    };
+}
+
+// =============================================================================
+// Declaration finders (shared scope walker)
+// =============================================================================
+
+/** Find the declaration a variable use at `offset` resolves to, respecting lexical scope. */
+function findDeclInModule(module: Module, name: string, offset: number, doc: vscode.TextDocument): vscode.Location | null {
+    const target = findSymbolTarget(module, offset);
+    if (target?.kind === 'variable' && target.name === name) {
+        return new vscode.Location(doc.uri, tokenToRange(doc, target.declaration));
     }
     return null;
 }
+
+/** Find the first use of a field in the given class (fields have no declaration in Wren). */
+function findFieldInClass(module: Module, className: string, fieldName: string): Token | null {
+    const occurrences = collectOccurrences(module, {
+        kind: 'field',
+        className,
+        name: fieldName,
+        isStatic: fieldName.startsWith('__'),
+    });
+    return occurrences.length > 0 ? occurrences[0].token : null;
+}
@@ -26,7 +26,9 @@ import type {
     Diagnostic,
     Parameter,
 } from '../../wren-analyzer/src/index';
-import { WrenClassSymbol, WrenFieldSymbol, WrenFileIndex, WrenImportSymbol, WrenMethodSymbol } from './types';
+import { WrenClassSymbol, WrenFieldSymbol, WrenFileIndex, WrenImportSymbol, WrenMethodSymbol, WrenVariableSymbol } from './types';
+import { extractDocComment } from './docComments';
+import { SourceLayout, methodStart } from './ranges';
 
 const SEVERITY_MAP: Record<string, vscode.DiagnosticSeverity> = {
     [DiagnosticSeverity.Error]: vscode.DiagnosticSeverity.Error,
@@ -62,10 +64,20 @@ export function analyzeDocument(document: vscode.TextDocument, searchPaths?: str
 
     const classes: WrenClassSymbol[] = [];
     const imports: WrenImportSymbol[] = [];
+    const variables: WrenVariableSymbol[] = [];
+    const layout = new SourceLayout(source);
 
     for (const stmt of module.statements) {
         if (stmt.kind === 'ClassStmt') {
-            classes.push(buildClassSymbol(document, stmt));
+            classes.push(buildClassSymbol(document, layout, stmt));
+        } else if (stmt.kind === 'VarStmt') {
+            variables.push({
+                name: stmt.name.text,
+                range: tokenRange(document, stmt.name),
+                declarationRange: spanRange(document, layout, stmt),
+                type: resolveVarType(stmt),
+                fnParams: functionParameters(stmt.initializer),
+            });
         } else if (stmt.kind === 'ImportStmt') {
             const raw = stripQuotes(stmt.path.text);
             if (raw) {
@@ -76,6 +88,7 @@ export function analyzeDocument(document: vscode.TextDocument, searchPaths?: str
                         document.positionAt(stmt.path.start),
                         document.positionAt(stmt.path.start + stmt.path.length),
                     ),
+                    declarationRange: spanRange(document, layout, stmt),
                     variables: stmt.variables?.map((v: Token) => v.text) ?? null,
                 });
             }
@@ -87,6 +100,7 @@ export function analyzeDocument(document: vscode.TextDocument, searchPaths?: str
         version: document.version,
         classes,
         imports,
+        variables,
         parsedAt: Date.now(),
     };
 
@@ -106,14 +120,14 @@ export function analyzeDocument(document: vscode.TextDocument, searchPaths?: str
     return { index, diagnostics, module };
 }
 
-function stripQuotes(text: string): string {
+export function stripQuotes(text: string): string {
     if (text.startsWith('"') && text.endsWith('"')) {
         return text.slice(1, -1);
     }
     return text;
 }
 
-function buildClassSymbol(document: vscode.TextDocument, cls: ClassStmt): WrenClassSymbol {
+function buildClassSymbol(document: vscode.TextDocument, layout: SourceLayout, cls: ClassStmt): WrenClassSymbol {
     const className = cls.name.text;
 
     // Class range: from 'foreign' or 'class' keyword to closing '}'
@@ -137,7 +151,7 @@ function buildClassSymbol(document: vscode.TextDocument, cls: ClassStmt): WrenCl
 
     // Extract methods
     for (const method of cls.methods) {
-        const sym = buildMethodSymbol(document, className, method);
+        const sym = buildMethodSymbol(document, layout, className, method);
         if (sym.isStatic) {
             staticMethods.push(sym);
         } else {
@@ -169,17 +183,20 @@ function buildClassSymbol(document: vscode.TextDocument, cls: ClassStmt): WrenCl
 
     return {
         name: className,
+        superclass: cls.superclass?.text,
         range,
         selectionRange,
         methods,
         staticMethods,
         fields,
         uri: document.uri,
+        documentation: extractDocComment(document, classKeywordStart)?.markdown,
     };
 }
 
 function buildMethodSymbol(
     document: vscode.TextDocument,
+    layout: SourceLayout,
     className: string,
     method: Method,
 ): WrenMethodSymbol {
@@ -220,40 +237,29 @@ function buildMethodSymbol(
         returnType,
     });
 
-    // Method range: from first keyword to end of body (or end of name for foreign)
-    const methodStart = method.foreignKeyword?.start
-        ?? method.staticKeyword?.start
-        ?? method.constructKeyword?.start
-        ?? method.name.start;
-
-    let methodEnd: number;
-    if (method.body) {
-        // Body ends at the closing '}'
-        // We need to find the end of the body. The body's last statement or expression
-        // gives us an approximation; but the actual '}' is consumed by finishBody.
-        // For now, use the method name + a generous estimate.
-        // Actually, body doesn't store its closing brace either.
-        // Use the name token range as the method range (same as simpleParser does for the line).
-        methodEnd = method.name.start + method.name.length;
-    } else {
-        // Foreign method: just the declaration
-        methodEnd = method.name.start + method.name.length;
-    }
-
+    // Method range: from first keyword to the body's closing '}' (or end of declaration for foreign)
+    const start = methodStart(method);
     const range = new vscode.Range(
-        document.positionAt(methodStart),
-        document.positionAt(methodEnd),
+        document.positionAt(start),
+        document.positionAt(layout.methodEnd(method)),
     );
 
+    const doc = extractDocComment(document, start);
+
     return {
         name,
         params,
         isStatic,
         isConstructor,
         range,
+        selectionRange: tokenRange(document, method.name),
         detail,
         className,
+        returnType: returnType ?? undefined,
+        isGetter: method.parameters === null && !isSubscript && !isConstructor && /^[A-Za-z_]/.test(name),
         uri: document.uri,
+        documentation: doc?.markdown,
+        paramDocs: doc?.params,
     };
 }
 
@@ -277,6 +283,23 @@ function buildSignatureLabel(
     return `${qualifierBlock}${className}.${methodName}(${params.join(', ')})${returnSuffix}`;
 }
 
+function spanRange(document: vscode.TextDocument, layout: SourceLayout, stmt: Stmt): vscode.Range {
+    const span = layout.nodeSpan(stmt) ?? { start: 0, end: 0 };
+    return new vscode.Range(document.positionAt(span.start), document.positionAt(span.end));
+}
+
+/** Block parameters of a `Fn.new { |a, b| ... }` initializer, or undefined for anything else. */
+function functionParameters(initializer: Expr | null): string[] | undefined {
+    if (initializer?.kind !== 'CallExpr' || initializer.name.text !== 'new' || !initializer.blockArgument) {
+        return undefined;
+    }
+    const receiver = initializer.receiver;
+    if (receiver?.kind !== 'CallExpr' || receiver.receiver !== null || receiver.name.text !== 'Fn') {
+        return undefined;
+    }
+    return (initializer.blockArgument.parameters ?? []).map((p: Parameter) => p.name.text);
+}
+
 function tokenRange(document: vscode.TextDocument, token: Token): vscode.Range {
     return new vscode.Range(
         document.positionAt(token.start),
@@ -291,17 +314,24 @@ function tokenRange(document: vscode.TextDocument, token: Token): vscode.Range {
 export interface TypeResolution {
     /** Variable name → type name (e.g. "c" → "C", "n" → "Num") */
     locals: Map<string, string>;
+    /**
+     * Variables whose type needs more than the AST to infer (e.g. `var p = a.b`):
+     * name → initializer, for chained inference against the workspace index
+     */
+    initializers: Map<string, Expr>;
     /** The class name the cursor is inside, if any (for `this.` resolution) */
     enclosingClass: string | null;
 }
 
+type LocalTypes = Pick<TypeResolution, 'locals' | 'initializers'>;
+
 /**
  * Resolves the types of all visible local variables at a given character offset.
  * Walks the module AST, collecting VarStmt and Parameter type annotations
  * that are visible at the cursor position, respecting lexical scoping.
  */
 export function resolveTypeAtPosition(module: Module, offset: number): TypeResolution {
-    const locals = new Map<string, string>();
+    const scope: LocalTypes = { locals: new Map(), initializers: new Map() };
     let enclosingClass: string | null = null;
 
     // Walk top-level statements
@@ -315,25 +345,34 @@ export function resolveTypeAtPosition(module: Module, offset: number): TypeResol
                 enclosingClass = cls.name.text;
                 // Search inside this class's methods
                 for (const method of cls.methods) {
-                    collectFromMethod(method, offset, locals);
+                    collectFromMethod(method, offset, scope);
                 }
                 break; // Cursor is inside this class, stop top-level walk
             }
         } else if (stmt.kind === 'VarStmt') {
             // Module-level var: visible if declared before cursor
             if (stmt.name.start < offset) {
-                const typeName = resolveVarType(stmt);
-                if (typeName) {
-                    locals.set(stmt.name.text, typeName);
-                }
+                declareVar(scope, stmt);
             }
         }
     }
 
-    return { locals, enclosingClass };
+    return { ...scope, enclosingClass };
 }
 
-function collectFromMethod(method: Method, offset: number, locals: Map<string, string>): void {
+/** Record a variable's type, or its initializer when the type needs chained inference. */
+function declareVar(scope: LocalTypes, stmt: VarStmt): void {
+    const typeName = resolveVarType(stmt);
+    if (typeName) {
+        scope.locals.set(stmt.name.text, typeName);
+        scope.initializers.delete(stmt.name.text);
+    } else if (stmt.initializer) {
+        scope.initializers.set(stmt.name.text, stmt.initializer);
+        scope.locals.delete(stmt.name.text);
+    }
+}
+
+function collectFromMethod(method: Method, offset: number, scope: LocalTypes): void {
     if (!method.body) return;
 
     // Check if cursor is inside this method's body
@@ -352,7 +391,7 @@ function collectFromMethod(method: Method, offset: number, locals: Map<string, s
     if (method.parameters) {
         for (const param of method.parameters) {
             if (param.typeAnnotation) {
-                locals.set(param.name.text, param.typeAnnotation.name.text);
+                scope.locals.set(param.name.text, param.typeAnnotation.name.text);
             }
         }
     }
@@ -361,74 +400,71 @@ function collectFromMethod(method: Method, offset: number, locals: Map<string, s
     if (method.subscriptParameters) {
         for (const param of method.subscriptParameters) {
             if (param.typeAnnotation) {
-                locals.set(param.name.text, param.typeAnnotation.name.text);
+                scope.locals.set(param.name.text, param.typeAnnotation.name.text);
             }
         }
     }
 
     // Walk body
-    collectFromBody(method.body, offset, locals);
+    collectFromBody(method.body, offset, scope);
 }
 
-function collectFromBody(body: Body, offset: number, locals: Map<string, string>): void {
+function collectFromBody(body: Body, offset: number, scope: LocalTypes): void {
     // Block argument parameters (e.g. {|x| ... })
     if (body.parameters) {
         for (const param of body.parameters) {
             if (param.typeAnnotation) {
-                locals.set(param.name.text, param.typeAnnotation.name.text);
+                scope.locals.set(param.name.text, param.typeAnnotation.name.text);
             }
         }
     }
 
     if (body.statements) {
-        collectFromStatements(body.statements, offset, locals);
+        collectFromStatements(body.statements, offset, scope);
     }
 }
 
-function collectFromStatements(statements: Stmt[], offset: number, locals: Map<string, string>): void {
+function collectFromStatements(statements: Stmt[], offset: number, scope: LocalTypes): void {
     for (const stmt of statements) {
-        collectFromStmt(stmt, offset, locals);
+        collectFromStmt(stmt, offset, scope);
     }
 }
 
-function collectFromStmt(stmt: Stmt, offset: number, locals: Map<string, string>): void {
+function collectFromStmt(stmt: Stmt, offset: number, scope: LocalTypes): void {
     switch (stmt.kind) {
         case 'VarStmt':
             // Only collect if declared before cursor
             if (stmt.name.start < offset) {
-                const typeName = resolveVarType(stmt);
-                if (typeName) {
-                    locals.set(stmt.name.text, typeName);
-                }
+                declareVar(scope, stmt);
             }
             break;
 
         case 'BlockStmt':
-            collectFromStatements(stmt.statements, offset, locals);
+            collectFromStatements(stmt.statements, offset, scope);
             break;
 
         case 'IfStmt':
-            collectFromStmt(stmt.thenBranch, offset, locals);
+            collectFromStmt(stmt.thenBranch, offset, scope);
             if (stmt.elseBranch) {
-                collectFromStmt(stmt.elseBranch, offset, locals);
+                collectFromStmt(stmt.elseBranch, offset, scope);
             }
             break;
 
         case 'WhileStmt':
-            collectFromStmt(stmt.body, offset, locals);
+            collectFromStmt(stmt.body, offset, scope);
             break;
 
         case 'ForStmt':
             // For loop variable with type annotation
             if (stmt.variable.start < offset && stmt.typeAnnotation) {
-                locals.set(stmt.variable.text, stmt.typeAnnotation.name.text);
+                scope.locals.set(stmt.variable.text, stmt.typeAnnotation.name.text);
             }
-            collectFromStmt(stmt.body, offset, locals);
+            collectFromStmt(stmt.body, offset, scope);
             break;
 
         default:
             // Expression statements — walk into CallExpr block arguments
-            collectFromExprBlockArgs(stmt, offset, locals);
+            collectFromExprBlockArgs(stmt, offset, scope);
             break;
     }
 }
@@ -437,12 +473,12 @@ function collectFromStmt(stmt: Stmt, offset: number, locals: Map<string, string>
  * Walk expression trees looking for block arguments (closures) that may
  * contain the cursor position and have typed parameters or var declarations.
  */
-function collectFromExprBlockArgs(expr: Expr | Stmt, offset: number, locals: Map<string, string>): void {
+function collectFromExprBlockArgs(expr: Expr | Stmt, offset: number, scope: LocalTypes): void {
     if (!expr || typeof expr !== 'object' || !('kind' in expr)) return;
 
     if (expr.kind === 'CallExpr') {
         if (expr.blockArgument) {
-            collectFromBody(expr.blockArgument, offset, locals);
+            collectFromBody(expr.blockArgument, offset, scope);
         }
     }
 }
@@ -450,7 +486,7 @@ function collectFromExprBlockArgs(expr: Expr | Stmt, offset: number, locals: Map
 /**
  * Resolve the type of a VarStmt from its annotation or initializer.
  */
-function resolveVarType(stmt: VarStmt): string | null {
+export function resolveVarType(stmt: VarStmt): string | null {
     // Explicit type annotation takes priority
     if (stmt.typeAnnotation) {
         return stmt.typeAnnotation.name.text;
@@ -467,7 +503,7 @@ function resolveVarType(stmt: VarStmt): string | null {
 /**
  * Infer the type of an expression from its AST node kind.
  */
-function inferExprType(expr: Expr): string | null {
+export function inferExprType(expr: Expr): string | null {
     switch (expr.kind) {
         case 'NumExpr':
             return 'Num';
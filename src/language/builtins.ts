@@ -71,6 +71,7 @@ function convertMethod(className: string, m: Method): WrenMethodSymbol {
         range: BUILTIN_RANGE,
         detail,
         className,
+        returnType: m.returnType?.name.text,
     };
 }
 
@@ -90,6 +91,7 @@ function convertClass(cls: ClassStmt): WrenClassSymbol {
 
     return {
         name: cls.name.text,
+        superclass: cls.superclass?.text,
         range: BUILTIN_RANGE,
         selectionRange: BUILTIN_RANGE,
         fields: [],
@@ -0,0 +1,51 @@
+// =============================================================================
+// Call hierarchy: who calls a method, and what a method calls.
+//
+// Call sites come from the scope walker, with receivers typed the same way
+// hover types them.  Calls whose receiver type is unknown are kept and marked
+// as possible matches rather than dropped.
+// =============================================================================
+
+import type { Module, ClassStmt, Method, Token } from '../../wren-analyzer/src/index';
+import { walkModule } from './scopes';
+import type { CallSite } from './scopes';
+import { matchCallSite } from './references';
+import type { CollectOptions, MethodTarget } from './references';
+
+/** Calls made from one method (or from module-level code when `method` is null). */
+export interface CallerGroup {
+    cls: ClassStmt | null;
+    method: Method | null;
+    /** False when the receiver type is unknown and the call only might reach the target */
+    certain: boolean;
+    tokens: Token[];
+}
+
+/** Group the calls to `target` in a module by the method they are made from. */
+export function findCallers(module: Module, target: MethodTarget, options: CollectOptions = {}): CallerGroup[] {
+    const groups: CallerGroup[] = [];
+    walkModule(module, {
+        call: (site, ctx) => {
+            const match = matchCallSite(site, target, options);
+            if (match === null) return;
+            let group = groups.find(g => g.method === ctx.method && g.certain === match);
+            if (!group) {
+                group = { cls: ctx.cls, method: ctx.method, certain: match, tokens: [] };
+                groups.push(group);
+            }
+            group.tokens.push(site.token);
+        },
+    }, { aggregate: options.aggregate });
+    return groups;
+}
+
+/** Call sites inside the method whose name token starts at `nameOffset`. */
+export function findCallsFrom(module: Module, nameOffset: number, options: CollectOptions = {}): CallSite[] {
+    const sites: CallSite[] = [];
+    walkModule(module, {
+        call: (site, ctx) => {
+            if (ctx.method?.name.start === nameOffset) sites.push(site);
+        },
+    }, { aggregate: options.aggregate, range: { start: nameOffset, end: nameOffset } });
+    return sites;
+}
@@ -0,0 +1,80 @@
+// =============================================================================
+// `///` doc comments.
+//
+// A doc comment is the run of `///` lines directly above a class or method
+// declaration (attributes such as `#doc = "..."` may sit in between).  Lines
+// starting with `@param name` describe a parameter; `@return` describes the
+// result.  Everything else is Markdown.
+// =============================================================================
+
+import * as vscode from 'vscode';
+
+export interface DocComment {
+    /** Rendered Markdown: description, then parameter and return notes */
+    markdown: string;
+    /** Parameter name → description, from `@param` tags */
+    params: Record<string, string>;
+}
+
+/** Read the doc comment above the declaration starting at `offset`, if any. */
+export function extractDocComment(document: vscode.TextDocument, offset: number): DocComment | undefined {
+    const lines: string[] = [];
+    for (let line = document.positionAt(offset).line - 1; line >= 0; line--) {
+        const text = document.lineAt(line).text.trim();
+        if (text.startsWith('#')) {
+            continue;
+        }
+        if (!text.startsWith('///') || text.startsWith('////')) {
+            break;
+        }
+        lines.unshift(text.slice(3).replace(/^ /, '').trimEnd());
+    }
+    return lines.length > 0 ? parseDocComment(lines) : undefined;
+}
+
+function parseDocComment(lines: string[]): DocComment | undefined {
+    const description: string[] = [];
+    const params: Record<string, string> = {};
+    const paramOrder: string[] = [];
+    let returns: string | undefined;
+    // Tag that continuation lines are appended to
+    let current: { param: string } | 'return' | null = null;
+
+    for (const line of lines) {
+        const param = /^@param\s+([A-Za-z_][A-Za-z0-9_]*)\s*(.*)$/.exec(line);
+        const ret = /^@returns?\s*(.*)$/.exec(line);
+        if (param) {
+            params[param[1]] = param[2];
+            paramOrder.push(param[1]);
+            current = { param: param[1] };
+        } else if (ret) {
+            returns = ret[1];
+            current = 'return';
+        } else if (current && line.length > 0) {
+            if (current === 'return') {
+                returns = `${returns} ${line}`.trim();
+            } else {
+                params[current.param] = `${params[current.param]} ${line}`.trim();
+            }
+        } else {
+            current = null;
+            description.push(line);
+        }
+    }
+
+    const sections: string[] = [];
+    const text = description.join('\n').trim();
+    if (text) {
+        sections.push(text);
+    }
+    if (paramOrder.length > 0) {
+        sections.push(paramOrder.map(name => `*@param* \`${name}\`${params[name] ? ` — ${params[name]}` : ''}`).join('  \n'));
+    }
+    if (returns) {
+        sections.push(`*@return* — ${returns}`);
+    }
+    if (sections.length === 0) {
+        return undefined;
+    }
+    return { markdown: sections.join('\n\n'), params };
+}
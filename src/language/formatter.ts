@@ -0,0 +1,543 @@
+// =============================================================================
+// Wren formatter.
+//
+// The analyzer's AST does not keep comments or whitespace, so formatting works
+// on a token stream of the source text and uses the Module AST only for the
+// things it knows better: where methods start (blank lines between methods)
+// and which operator tokens are method names (`+(other)`, `name=(value)`),
+// which must not be spaced like binary operators.
+//
+// Only whitespace is changed.  Lines inside multi-line strings and block
+// comments are left untouched, and `///` doc comments and `#` attributes are
+// kept verbatim.
+// =============================================================================
+
+import * as vscode from 'vscode';
+import type { Module, ClassStmt } from '../../wren-analyzer/src/index';
+import { methodStart } from './ranges';
+
+export interface WrenFormatOptions {
+    /** One level of indentation (spaces or a tab) */
+    indentUnit: string;
+    /** `sameLine` moves a lone `{` of an if/else/while/for body up to the header line */
+    braceStyle: 'sameLine' | 'preserve';
+    /** Blank lines between a multi-line method and its neighbours */
+    blankLinesBetweenMethods: number;
+}
+
+export type TokenKind = 'word' | 'number' | 'string' | 'comment' | 'attribute' | 'op' | 'open' | 'close' | 'comma' | 'dot';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    start: number;
+    end: number;
+}
+
+interface Line {
+    tokens: Token[];
+    /** Starts inside a multi-line string or comment: leave the whole line as is */
+    frozen: boolean;
+    /** A multi-line token starts here: only the indentation may change */
+    opensMultiline: boolean;
+}
+
+const CONTROL_KEYWORDS = new Set(['if', 'while', 'for']);
+const KEYWORDS_BEFORE_OPERAND = new Set(['return', 'is', 'in', 'if', 'while', 'else']);
+const MULTI_CHAR_OPERATORS = ['...', '..', '->', '==', '!=', '<=', '>=', '&&', '||', '<<', '>>'];
+
+// -----------------------------------------------------------------------------
+// Lexing
+// -----------------------------------------------------------------------------
+
+/** Tokenize source text, keeping the comments and attributes the analyzer drops. */
+export function lex(text: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+    let lineHasToken = false;
+
+    const push = (kind: TokenKind, start: number, end: number) => {
+        tokens.push({ kind, text: text.slice(start, end), start, end });
+        lineHasToken = true;
+    };
+
+    while (pos < text.length) {
+        const ch = text[pos];
+
+        if (ch === '\n') {
+            lineHasToken = false;
+            pos++;
+        } else if (ch === ' ' || ch === '\t' || ch === '\r') {
+            pos++;
+        } else if (text.startsWith('//', pos)) {
+            const end = lineEnd(text, pos);
+            push('comment', pos, end);
+            pos = end;
+        } else if (text.startsWith('/*', pos)) {
+            const end = skipBlockComment(text, pos);
+            push('comment', pos, end);
+            pos = end;
+        } else if (ch === '#' && !lineHasToken) {
+            const end = lineEnd(text, pos);
+            push('attribute', pos, end);
+            pos = end;
+        } else if (text.startsWith('"""', pos)) {
+            const close = text.indexOf('"""', pos + 3);
+            const end = close === -1 ? text.length : close + 3;
+            push('string', pos, end);
+            pos = end;
+        } else if (ch === '"') {
+            const end = skipString(text, pos);
+            push('string', pos, end);
+            pos = end;
+        } else if (/[0-9]/.test(ch)) {
+            const match = /^(0x[0-9a-fA-F]+|[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?)/.exec(text.slice(pos, pos + 64));
+            const end = pos + (match ? match[0].length : 1);
+            push('number', pos, end);
+            pos = end;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            let end = pos + 1;
+            while (end < text.length && /[A-Za-z0-9_]/.test(text[end])) end++;
+            push('word', pos, end);
+            pos = end;
+        } else {
+            const multi = MULTI_CHAR_OPERATORS.find(op => text.startsWith(op, pos));
+            const end = pos + (multi ? multi.length : 1);
+            const symbol = text.slice(pos, end);
+            let kind: TokenKind = 'op';
+            if (symbol === '(' || symbol === '[' || symbol === '{') kind = 'open';
+            else if (symbol === ')' || symbol === ']' || symbol === '}') kind = 'close';
+            else if (symbol === ',') kind = 'comma';
+            else if (symbol === '.' || symbol === '..' || symbol === '...') kind = 'dot';
+            push(kind, pos, end);
+            pos = end;
+        }
+    }
+    return tokens;
+}
+
+function lineEnd(text: string, pos: number): number {
+    const newline = text.indexOf('\n', pos);
+    let end = newline === -1 ? text.length : newline;
+    if (end > pos && text[end - 1] === '\r') end--;
+    return end;
+}
+
+/** Block comments nest in Wren. */
+function skipBlockComment(text: string, pos: number): number {
+    let depth = 0;
+    while (pos < text.length) {
+        if (text.startsWith('/*', pos)) {
+            depth++;
+            pos += 2;
+        } else if (text.startsWith('*/', pos)) {
+            depth--;
+            pos += 2;
+            if (depth === 0) return pos;
+        } else {
+            pos++;
+        }
+    }
+    return pos;
+}
+
+/** Skip a string literal, including `%(...)` interpolations that may contain strings themselves. */
+function skipString(text: string, pos: number): number {
+    pos++;
+    while (pos < text.length) {
+        const ch = text[pos];
+        if (ch === '\\') {
+            pos += 2;
+        } else if (ch === '"') {
+            return pos + 1;
+        } else if (ch === '%' && text[pos + 1] === '(') {
+            pos = skipInterpolation(text, pos + 2);
+        } else if (ch === '\n') {
+            // Unterminated string: stop at the end of the line
+            return pos;
+        } else {
+            pos++;
+        }
+    }
+    return pos;
+}
+
+function skipInterpolation(text: string, pos: number): number {
+    let depth = 1;
+    while (pos < text.length && depth > 0) {
+        const ch = text[pos];
+        if (ch === '"') {
+            pos = skipString(text, pos);
+            continue;
+        }
+        if (ch === '(') depth++;
+        else if (ch === ')') depth--;
+        pos++;
+    }
+    return pos;
+}
+
+// -----------------------------------------------------------------------------
+// Line model
+// -----------------------------------------------------------------------------
+
+function buildLines(document: vscode.TextDocument, tokens: Token[]): Line[] {
+    const lines: Line[] = [];
+    for (let i = 0; i < document.lineCount; i++) {
+        lines.push({ tokens: [], frozen: false, opensMultiline: false });
+    }
+    for (const token of tokens) {
+        const startLine = document.positionAt(token.start).line;
+        const endLine = document.positionAt(token.end).line;
+        lines[startLine].tokens.push(token);
+        if (endLine > startLine) {
+            lines[startLine].opensMultiline = true;
+            for (let l = startLine + 1; l <= endLine; l++) {
+                lines[l].frozen = true;
+            }
+        }
+    }
+    return lines;
+}
+
+/** Offsets of operator tokens that are method names, or the `=` of a setter declaration. */
+function collectMethodOperatorOffsets(module: Module, tokens: Token[]): Set<number> {
+    const offsets = new Set<number>();
+    for (const cls of classesOf(module)) {
+        for (const method of cls.methods) {
+            if (!/^[A-Za-z_\[\]]/.test(method.name.text)) {
+                offsets.add(method.name.start);
+            }
+            if (method.isSetter) {
+                const equal = tokens.find(t => t.start > method.name.start && t.text === '=');
+                if (equal) offsets.add(equal.start);
+            }
+        }
+    }
+    return offsets;
+}
+
+function classesOf(module: Module): ClassStmt[] {
+    return module.statements.filter((stmt: { kind: string }) => stmt.kind === 'ClassStmt') as ClassStmt[];
+}
+
+// -----------------------------------------------------------------------------
+// Spacing
+// -----------------------------------------------------------------------------
+
+interface SpacingState {
+    /** Unmatched `?` on the line, so the next `:` belongs to a conditional */
+    pendingQuestions: number;
+    /** Inside `{|a, b|` block parameters */
+    inBlockParams: boolean;
+    /** Offset of the `|` that closed the block parameters */
+    closingPipe: number;
+}
+
+function isUnaryPosition(prev: Token | undefined): boolean {
+    if (!prev) return true;
+    if (prev.kind === 'op' || prev.kind === 'open' || prev.kind === 'comma') return true;
+    return prev.kind === 'word' && KEYWORDS_BEFORE_OPERAND.has(prev.text);
+}
+
+/**
+ * Decide the whitespace between two tokens on a line.  `original` is the
+ * whitespace the source had there, used where the style leaves a choice.
+ */
+function spaceBetween(
+    prev: Token,
+    token: Token,
+    beforePrev: Token | undefined,
+    original: string,
+    protectedOps: Set<number>,
+    state: SpacingState,
+): string {
+    const keep = original.length > 0 ? ' ' : '';
+
+    if (token.kind === 'comment') return original.length > 0 ? original : ' ';
+
+    // Operator method names (`+(other)`, `name=(value)`) hug their parameter list
+    if (protectedOps.has(prev.start)) return token.text === '{' ? ' ' : '';
+    if (protectedOps.has(token.start)) return token.text === '=' ? '' : keep;
+
+    // Block parameters: `{|a, b| ...}`
+    if (token.text === '|' && prev.text === '{') {
+        state.inBlockParams = true;
+        return '';
+    }
+    if (state.inBlockParams && token.text === '|') {
+        state.inBlockParams = false;
+        state.closingPipe = token.start;
+        return '';
+    }
+    if (prev.text === '|' && beforePrev?.text === '{') return '';
+    if (prev.start === state.closingPipe) return ' ';
+
+    if (token.kind === 'comma' || token.kind === 'dot') return '';
+    if (token.text === ')' || token.text === ']') return '';
+    if (prev.kind === 'dot') return '';
+    if (prev.text === '(' || prev.text === '[') return '';
+    if (prev.kind === 'comma') return ' ';
+
+    if (token.text === '(') {
+        if (prev.kind === 'word') return CONTROL_KEYWORDS.has(prev.text) ? ' ' : (prev.text === 'super' ? '' : keep);
+        if (prev.kind === 'close') return keep;
+    }
+    if (token.text === '[' && (prev.kind === 'word' || prev.kind === 'close' || prev.kind === 'string')) return '';
+    if (token.text === '{') return prev.text === '(' ? '' : ' ';
+    if (prev.text === '{' && token.text === '}') return '';
+
+    // Unary operators bind to their operand
+    if (prev.kind === 'op' && (prev.text === '!' || prev.text === '~' || (prev.text === '-' && isUnaryPosition(beforePrev)))) {
+        return '';
+    }
+
+    if (token.kind === 'op') {
+        if (token.text === '!' || token.text === '~') return keep;
+        if (token.text === '-' && isUnaryPosition(prev)) return keep;
+        if (token.text === '?') {
+            state.pendingQuestions++;
+            return ' ';
+        }
+        if (token.text === ':') {
+            if (state.pendingQuestions > 0) {
+                state.pendingQuestions--;
+                return ' ';
+            }
+            // Type annotation (`x: Num`) or map entry (`"a": 1`)
+            return '';
+        }
+        return ' ';
+    }
+    if (prev.kind === 'op') return ' ';
+
+    return keep;
+}
+
+function renderTokens(text: string, tokens: Token[], protectedOps: Set<number>): string {
+    const state: SpacingState = { pendingQuestions: 0, inBlockParams: false, closingPipe: -1 };
+    let result = '';
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (i > 0) {
+            const prev = tokens[i - 1];
+            const original = text.slice(prev.end, token.start);
+            result += spaceBetween(prev, token, tokens[i - 2], original, protectedOps, state);
+        }
+        result += token.text;
+    }
+    return result;
+}
+
+// -----------------------------------------------------------------------------
+// Formatting
+// -----------------------------------------------------------------------------
+
+/**
+ * Compute formatting edits for the lines in `range` (the whole document when
+ * omitted).  Blank lines between methods are only adjusted for whole-document
+ * formatting, since that can move lines outside a partial range.
+ */
+export function formatWren(
+    document: vscode.TextDocument,
+    module: Module,
+    options: WrenFormatOptions,
+    range?: vscode.Range,
+): vscode.TextEdit[] {
+    const text = document.getText();
+    const tokens = lex(text);
+    const lines = buildLines(document, tokens);
+    const protectedOps = collectMethodOperatorOffsets(module, tokens);
+    const firstLine = range ? range.start.line : 0;
+    const lastLine = range ? range.end.line : document.lineCount - 1;
+
+    // New content per line: a string, or null when the line is removed
+    const output: (string | null)[] = [];
+    const openers: number[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const original = document.lineAt(i).text;
+
+        if (line.frozen) {
+            output.push(original);
+            line.tokens.forEach(t => trackBrackets(t, i, openers));
+            continue;
+        }
+
+        let leadingClosers = 0;
+        while (leadingClosers < line.tokens.length && line.tokens[leadingClosers].kind === 'close') {
+            leadingClosers++;
+        }
+        let level = indentLevel(openers.slice(0, Math.max(0, openers.length - leadingClosers)));
+        if (line.tokens.length > 0 && line.tokens[0].kind === 'dot') {
+            // Continuation of a method chain
+            level++;
+        }
+        const indent = options.indentUnit.repeat(level);
+
+        if (line.tokens.length === 0) {
+            output.push('');
+        } else if (line.opensMultiline) {
+            output.push(indent + original.slice(document.positionAt(line.tokens[0].start).character));
+        } else {
+            output.push(indent + renderTokens(text, line.tokens, protectedOps));
+        }
+
+        line.tokens.forEach(t => trackBrackets(t, i, openers));
+    }
+
+    if (options.braceStyle === 'sameLine') {
+        joinLoneBraces(lines, output, firstLine, lastLine);
+    }
+    if (!range) {
+        adjustMethodSpacing(document, module, lines, output, options.blankLinesBetweenMethods);
+    }
+
+    return buildEdits(document, output, firstLine, lastLine);
+}
+
+function trackBrackets(token: Token, line: number, openers: number[]): void {
+    if (token.kind === 'open') {
+        openers.push(line);
+    } else if (token.kind === 'close') {
+        openers.pop();
+    }
+}
+
+/** Brackets opened on the same line share one level of indentation. */
+function indentLevel(openers: number[]): number {
+    let level = 0;
+    let lastLine = -1;
+    for (const line of openers) {
+        if (line !== lastLine) {
+            level++;
+            lastLine = line;
+        }
+    }
+    return level;
+}
+
+/**
+ * Move a `{` that sits alone on its line up to the header of an if/else/while/for.
+ * Other lone braces are left alone: after a complete statement `{` starts a
+ * block statement, and joining it would turn it into a block argument.
+ */
+function joinLoneBraces(lines: Line[], output: (string | null)[], firstLine: number, lastLine: number): void {
+    for (let i = Math.max(firstLine, 1); i <= lastLine; i++) {
+        const tokens = lines[i].tokens;
+        if (lines[i].frozen || tokens.length !== 1 || tokens[0].text !== '{') continue;
+
+        let prev = i - 1;
+        while (prev >= firstLine && lines[prev].tokens.length === 0) prev--;
+        if (prev < firstLine || lines[prev].frozen || output[prev] === null) continue;
+
+        if (!isControlHeader(lines[prev].tokens) || lines[prev].opensMultiline) continue;
+
+        output[prev] = `${output[prev]} {`;
+        for (let l = prev + 1; l <= i; l++) {
+            output[l] = null;
+        }
+    }
+}
+
+/**
+ * Put `blankLines` blank lines between methods, counting their doc comments
+ * and attributes as part of them.  Consecutive one-line methods (getters like
+ * `width { _width }`) may stay closer together.
+ */
+function adjustMethodSpacing(
+    document: vscode.TextDocument,
+    module: Module,
+    lines: Line[],
+    output: (string | null)[],
+    blankLines: number,
+): void {
+    for (const cls of classesOf(module)) {
+        const methods = [...cls.methods].sort((a, b) => methodStart(a) - methodStart(b));
+        const spans = methods.map(method => {
+            const header = document.positionAt(methodStart(method)).line;
+            let lead = header;
+            while (lead > 0 && isLeadingLine(lines[lead - 1])) lead--;
+            return { header, lead };
+        });
+
+        for (let m = 0; m + 1 < spans.length; m++) {
+            const next = spans[m + 1];
+            let lastOfCurrent = next.lead - 1;
+            while (lastOfCurrent > spans[m].header && lines[lastOfCurrent].tokens.length === 0 && !lines[lastOfCurrent].frozen) {
+                lastOfCurrent--;
+            }
+            const gap: number[] = [];
+            for (let l = lastOfCurrent + 1; l < next.lead; l++) {
+                if (output[l] !== null) gap.push(l);
+            }
+
+            const nextEnd = m + 2 < spans.length ? spans[m + 2].lead - 1 : document.positionAt(cls.rightBrace.start).line - 1;
+            const currentIsMultiline = lastOfCurrent > spans[m].header;
+            const nextIsMultiline = lastNonBlank(lines, next.header, nextEnd) > next.header;
+            const wanted = currentIsMultiline || nextIsMultiline ? blankLines : Math.min(gap.length, blankLines);
+
+            for (let k = wanted; k < gap.length; k++) {
+                output[gap[k]] = null;
+            }
+            if (gap.length < wanted && output[next.lead] !== null) {
+                output[next.lead] = '\n'.repeat(wanted - gap.length) + output[next.lead];
+            }
+        }
+    }
+}
+
+/** `if (...)`, `while (...)`, `for (...)`, `else` or `else if (...)`, optionally after `}`. */
+function isControlHeader(tokens: Token[]): boolean {
+    let i = tokens[0]?.text === '}' ? 1 : 0;
+    if (tokens[i]?.text === 'else') {
+        if (i === tokens.length - 1) return true;
+        i++;
+    }
+    if (!tokens[i] || !CONTROL_KEYWORDS.has(tokens[i].text) || tokens[i + 1]?.text !== '(') return false;
+
+    // The condition's closing paren must end the line; otherwise the body is already there
+    let depth = 0;
+    for (let j = i + 1; j < tokens.length; j++) {
+        if (tokens[j].kind === 'open') depth++;
+        else if (tokens[j].kind === 'close') depth--;
+        if (depth === 0) return j === tokens.length - 1;
+    }
+    return false;
+}
+
+function isLeadingLine(line: Line): boolean {
+    const first = line.tokens[0];
+    return !line.frozen && line.tokens.length === 1 && (first.kind === 'comment' || first.kind === 'attribute');
+}
+
+function lastNonBlank(lines: Line[], from: number, to: number): number {
+    let last = from;
+    for (let l = from; l <= to && l < lines.length; l++) {
+        if (lines[l].tokens.length > 0 || lines[l].frozen) last = l;
+    }
+    return last;
+}
+
+function buildEdits(
+    document: vscode.TextDocument,
+    output: (string | null)[],
+    firstLine: number,
+    lastLine: number,
+): vscode.TextEdit[] {
+    const edits: vscode.TextEdit[] = [];
+    for (let i = firstLine; i <= lastLine && i < output.length; i++) {
+        const line = document.lineAt(i);
+        const replacement = output[i];
+        if (replacement === null) {
+            const range = i + 1 < document.lineCount
+                ? new vscode.Range(i, 0, i + 1, 0)
+                : new vscode.Range(document.lineAt(i - 1).range.end, line.range.end);
+            edits.push(vscode.TextEdit.delete(range));
+        } else if (replacement !== line.text) {
+            edits.push(vscode.TextEdit.replace(line.range, replacement));
+        }
+    }
+    return edits;
+}
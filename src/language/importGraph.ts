@@ -0,0 +1,171 @@
+/** One `import` of a module, and the file it resolved to when the module was analyzed. */
+export interface ImportEdge {
+    moduleName: string;
+    /** Null when the module did not resolve to a file */
+    resolved: string | null;
+}
+
+/**
+ * The imports of every analyzed file, with the reverse edges, so the files
+ * affected by a change to a module can be found without re-reading the
+ * workspace.  Built-in modules are not recorded.
+ */
+export class ImportGraph {
+    private readonly imports = new Map<string, ImportEdge[]>();
+    private readonly importers = new Map<string, Set<string>>();
+
+    /** Replace the recorded imports of a file. */
+    setImports(fsPath: string, edges: ImportEdge[]): void {
+        this.unlink(fsPath);
+        this.imports.set(fsPath, edges);
+        for (const edge of edges) {
+            if (edge.resolved) {
+                let set = this.importers.get(edge.resolved);
+                if (!set) {
+                    set = new Set();
+                    this.importers.set(edge.resolved, set);
+                }
+                set.add(fsPath);
+            }
+        }
+    }
+
+    /** Forget a file's own imports; files importing it keep their edges. */
+    remove(fsPath: string): void {
+        this.unlink(fsPath);
+        this.imports.delete(fsPath);
+    }
+
+    importsOf(fsPath: string): readonly ImportEdge[] {
+        return this.imports.get(fsPath) ?? [];
+    }
+
+    /** Every file whose imports are recorded. */
+    files(): string[] {
+        return [...this.imports.keys()];
+    }
+
+    /** Files that import `fsPath`, directly or through other modules. */
+    dependentsOf(fsPath: string): string[] {
+        const result = new Set<string>();
+        const pending = [fsPath];
+        while (pending.length > 0) {
+            const current = pending.pop()!;
+            for (const importer of this.importers.get(current) ?? []) {
+                if (importer !== fsPath && !result.has(importer)) {
+                    result.add(importer);
+                    pending.push(importer);
+                }
+            }
+        }
+        return [...result];
+    }
+
+    private unlink(fsPath: string): void {
+        for (const edge of this.imports.get(fsPath) ?? []) {
+            if (edge.resolved) {
+                this.importers.get(edge.resolved)?.delete(fsPath);
+            }
+        }
+    }
+}
+
+export type ImportGraphFormat = 'mermaid' | 'dot';
+
+/**
+ * Render an import graph (each file with the files it imports) as a Mermaid
+ * flowchart or a Graphviz digraph.  Imports that are part of a cycle are
+ * drawn in red.  `label` names a file in the output.
+ */
+export function formatImportGraph(
+    graph: Map<string, string[]>,
+    format: ImportGraphFormat,
+    label: (file: string) => string,
+): string {
+    const files = new Set<string>();
+    for (const [file, targets] of graph) {
+        files.add(file);
+        targets.forEach(target => files.add(target));
+    }
+    const sorted = [...files].sort((a, b) => label(a).localeCompare(label(b)));
+    const ids = new Map(sorted.map((file, i) => [file, `m${i}`]));
+    const cyclic = cyclicEdges(graph);
+    const edges = sorted.flatMap(file => (graph.get(file) ?? []).map(target => ({
+        from: file,
+        to: target,
+        cyclic: cyclic.has(`${file}\n${target}`),
+    })));
+
+    const lines: string[] = [];
+    if (format === 'mermaid') {
+        lines.push('flowchart LR');
+        for (const file of sorted) {
+            lines.push(`    ${ids.get(file)}["${label(file).replace(/"/g, '#quot;')}"]`);
+        }
+        edges.forEach(edge => lines.push(`    ${ids.get(edge.from)} --> ${ids.get(edge.to)}`));
+        edges.forEach((edge, i) => {
+            if (edge.cyclic) lines.push(`    linkStyle ${i} stroke:#e51400,stroke-width:2px`);
+        });
+    } else {
+        const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+        lines.push('digraph imports {', '    rankdir=LR;', '    node [shape=box];');
+        for (const file of sorted) {
+            lines.push(`    ${ids.get(file)} [label=${quote(label(file))}];`);
+        }
+        for (const edge of edges) {
+            lines.push(`    ${ids.get(edge.from)} -> ${ids.get(edge.to)}${edge.cyclic ? ' [color="#e51400"]' : ''};`);
+        }
+        lines.push('}');
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Imports that lie on a cycle, as `from\nto` keys: those between files of
+ * the same strongly connected component (Tarjan's algorithm), and
+ * self-imports.
+ */
+function cyclicEdges(graph: Map<string, string[]>): Set<string> {
+    const component = new Map<string, number>();
+    const order = new Map<string, number>();
+    const low = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    let counter = 0;
+
+    const visit = (file: string): void => {
+        order.set(file, counter);
+        low.set(file, counter++);
+        stack.push(file);
+        onStack.add(file);
+        for (const target of graph.get(file) ?? []) {
+            if (!order.has(target)) {
+                visit(target);
+                low.set(file, Math.min(low.get(file)!, low.get(target)!));
+            } else if (onStack.has(target)) {
+                low.set(file, Math.min(low.get(file)!, order.get(target)!));
+            }
+        }
+        if (low.get(file) === order.get(file)) {
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.set(member, order.get(file)!);
+            } while (member !== file);
+        }
+    };
+    for (const file of graph.keys()) {
+        if (!order.has(file)) visit(file);
+    }
+
+    const result = new Set<string>();
+    for (const [file, targets] of graph) {
+        for (const target of targets) {
+            if (file === target || component.get(file) === component.get(target)) {
+                result.add(`${file}\n${target}`);
+            }
+        }
+    }
+    return result;
+}
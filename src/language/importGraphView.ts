@@ -0,0 +1,102 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { WrenLanguageService } from './languageService';
+import { formatImportGraph } from './importGraph';
+import type { ImportGraphFormat } from './importGraph';
+
+const FORMATS: Record<ImportGraphFormat, { label: string; filters: Record<string, string[]> }> = {
+    mermaid: { label: 'Mermaid', filters: { Mermaid: ['mmd'] } },
+    dot: { label: 'DOT (Graphviz)', filters: { Graphviz: ['dot', 'gv'] } },
+};
+
+let panel: vscode.WebviewPanel | undefined;
+/** The graph on display, which the panel's Copy and Save buttons act on */
+let displayed: { format: ImportGraphFormat; source: string } | undefined;
+
+/**
+ * **Wren: Show Import Graph**: ask for the scope (the whole workspace or the
+ * active file and what it imports) and the format, then show the exported
+ * graph in a webview from which it can be copied or saved.
+ */
+export async function showImportGraph(service: WrenLanguageService): Promise<void> {
+    const document = vscode.window.activeTextEditor?.document;
+    const scopes = [{ label: 'Workspace', description: 'Every .wren file in the workspace', file: undefined as string | undefined }];
+    if (document?.languageId === 'wren' && !document.isUntitled) {
+        const file = document.uri.fsPath;
+        scopes.unshift({ label: 'Current file', description: vscode.workspace.asRelativePath(file), file });
+    }
+    const scope = await vscode.window.showQuickPick(scopes, { placeHolder: 'Import graph of' });
+    if (!scope) return;
+
+    const formats = (Object.keys(FORMATS) as ImportGraphFormat[]).map(format => ({ label: FORMATS[format].label, format }));
+    const picked = await vscode.window.showQuickPick(formats, { placeHolder: 'Export as' });
+    if (!picked) return;
+
+    const roots = scope.file ? [scope.file] : (await vscode.workspace.findFiles('**/*.wren')).map(uri => uri.fsPath);
+    const graph = await service.getImportGraph(roots);
+    const source = formatImportGraph(graph, picked.format, file => vscode.workspace.asRelativePath(file).replace(/\.wren$/, ''));
+    const title = scope.file ? `Imports: ${vscode.workspace.asRelativePath(scope.file)}` : 'Imports: workspace';
+    showPanel(title, picked.format, source);
+}
+
+function showPanel(title: string, format: ImportGraphFormat, source: string): void {
+    displayed = { format, source };
+    if (panel) {
+        panel.title = title;
+        panel.reveal();
+    } else {
+        panel = vscode.window.createWebviewPanel('wren.importGraph', title, vscode.ViewColumn.Beside, { enableScripts: true });
+        const messages = panel.webview.onDidReceiveMessage(handleMessage);
+        panel.onDidDispose(() => {
+            messages.dispose();
+            panel = undefined;
+            displayed = undefined;
+        });
+    }
+
+    const webview = panel.webview;
+    const nonce = crypto.randomBytes(16).toString('base64');
+    webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    pre { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size);
+          background: var(--vscode-textCodeBlock-background); padding: 8px 12px; overflow: auto; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background);
+             border: none; padding: 4px 12px; margin-right: 6px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+</style>
+</head>
+<body>
+<p>${escapeHtml(FORMATS[format].label)} source. Imports that are part of a cycle are drawn in red.</p>
+<button id="copy">Copy</button><button id="save">Save As…</button>
+<pre>${escapeHtml(source)}</pre>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById('copy').addEventListener('click', () => vscode.postMessage({ command: 'copy' }));
+    document.getElementById('save').addEventListener('click', () => vscode.postMessage({ command: 'save' }));
+</script>
+</body>
+</html>`;
+}
+
+async function handleMessage(message: { command: string }): Promise<void> {
+    if (!displayed) return;
+    const { format, source } = displayed;
+    if (message.command === 'copy') {
+        await vscode.env.clipboard.writeText(source);
+        vscode.window.setStatusBarMessage('Import graph copied to the clipboard.', 3000);
+    } else if (message.command === 'save') {
+        const target = await vscode.window.showSaveDialog({ filters: FORMATS[format].filters });
+        if (target) {
+            await vscode.workspace.fs.writeFile(target, Buffer.from(source, 'utf8'));
+        }
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
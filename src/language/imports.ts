@@ -0,0 +1,154 @@
+// =============================================================================
+// Import analysis: unused imported names, circular imports, and Organize Imports.
+//
+// An imported name is used when the scope walker resolves a variable or class
+// reference to it anywhere in the module (other than the import itself).
+// Organize Imports rewrites the first run of consecutive `import` statements:
+// duplicates of a module are merged, unused names dropped, and the statements
+// and their name lists sorted.
+// =============================================================================
+
+import * as vscode from 'vscode';
+import type { Module, ImportStmt, Token } from '../../wren-analyzer/src/index';
+import { stripQuotes } from './astIndex';
+import type { ImportCycle } from './types';
+import { walkModule } from './scopes';
+
+/** Imported name tokens (`import "x" for Name`) that the module never uses. */
+export function findUnusedImports(module: Module): Token[] {
+    const imported: Token[] = [];
+    const importTokens = new Set<number>();
+    for (const stmt of module.statements) {
+        if (stmt.kind === 'ImportStmt') {
+            for (const variable of stmt.variables ?? []) {
+                imported.push(variable);
+                importTokens.add(variable.start);
+            }
+        }
+    }
+    if (imported.length === 0) {
+        return [];
+    }
+
+    const used = new Set<string>();
+    walkModule(module, {
+        variable: (_token, binding) => {
+            if (binding.kind === 'import') used.add(binding.name);
+        },
+        classReference: token => {
+            if (!importTokens.has(token.start)) used.add(token.text);
+        },
+    });
+    return imported.filter(token => !used.has(token.text));
+}
+
+/** Unused imports as faded-out hints. */
+export function unusedImportDiagnostics(document: vscode.TextDocument, module: Module): vscode.Diagnostic[] {
+    return findUnusedImports(module).map(token => {
+        const range = new vscode.Range(
+            document.positionAt(token.start),
+            document.positionAt(token.start + token.length),
+        );
+        const diagnostic = new vscode.Diagnostic(range, `'${token.text}' is imported but never used.`, vscode.DiagnosticSeverity.Hint);
+        diagnostic.source = 'wren';
+        diagnostic.code = 'unused-import';
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        return diagnostic;
+    });
+}
+
+/** A warning on the import that completes a cycle, naming every file on the way round. */
+export function circularImportDiagnostic(cycle: ImportCycle): vscode.Diagnostic {
+    const names = cycle.files.map(file => vscode.workspace.asRelativePath(file));
+    const diagnostic = new vscode.Diagnostic(
+        cycle.imports[0].range,
+        `Circular import: ${names.join(' → ')}. Modules run in import order, so names imported along this chain may not be defined yet when they are used.`,
+        vscode.DiagnosticSeverity.Warning,
+    );
+    diagnostic.source = 'wren';
+    diagnostic.code = 'circular-import';
+    diagnostic.relatedInformation = cycle.imports.slice(1).map((imp, i) => new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(vscode.Uri.file(cycle.files[i + 1]), imp.range),
+        `${names[i + 1]} imports ${names[i + 2]}`,
+    ));
+    return diagnostic;
+}
+
+/**
+ * Edits that organize the imports at the top of the module, or an empty list
+ * when they are already organized.  Returns null when the block cannot be
+ * rewritten safely because comments sit between the statements.
+ *
+ * `resolve` maps a module name to its file, so that `"utils"` and `"./utils"`
+ * are merged when they name the same module.  A statement whose names are all
+ * unused becomes a bare `import "x"`: Wren still runs the module's body.
+ */
+export function organizeImports(
+    document: vscode.TextDocument,
+    module: Module,
+    resolve: (moduleName: string) => string | null = () => null,
+): vscode.TextEdit[] | null {
+    const run = firstImportRun(module);
+    if (run.length === 0) {
+        return [];
+    }
+
+    const source = document.getText();
+    // The statement starts at its `import` keyword, just before the path
+    const start = source.lastIndexOf('import', run[0].path.start);
+    const lastStmt = run[run.length - 1];
+    const lastToken: Token = lastStmt.variables?.length ? lastStmt.variables[lastStmt.variables.length - 1] : lastStmt.path;
+    const end = lastToken.start + lastToken.length;
+    const original = source.slice(start, end);
+    if (/\/\/|\/\*/.test(original.replace(/"[^"\n]*"/g, '""'))) {
+        return null;
+    }
+
+    const unused = new Set(findUnusedImports(module).map(token => token.start));
+    // Module (its file when it resolves, else its name) → the name written
+    // first and the names still used; an empty set becomes a bare `import "x"`
+    const merged = new Map<string, { moduleName: string; names: Set<string> }>();
+    for (const stmt of run) {
+        const moduleName = stripQuotes(stmt.path.text);
+        const key = resolve(moduleName) ?? moduleName;
+        const entry = merged.get(key) ?? { moduleName, names: new Set<string>() };
+        merged.set(key, entry);
+        for (const variable of stmt.variables ?? []) {
+            if (!unused.has(variable.start)) entry.names.add(variable.text);
+        }
+    }
+
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const lines: string[] = [];
+    for (const { moduleName, names } of [...merged.values()].sort((a, b) => compareModules(a.moduleName, b.moduleName))) {
+        lines.push(names.size > 0
+            ? `import "${moduleName}" for ${[...names].sort().join(', ')}`
+            : `import "${moduleName}"`);
+    }
+
+    const organized = lines.join(eol);
+    if (organized === original) {
+        return [];
+    }
+    const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+    return [vscode.TextEdit.replace(range, organized)];
+}
+
+/** The first run of top-level import statements not separated by other code. */
+function firstImportRun(module: Module): ImportStmt[] {
+    const run: ImportStmt[] = [];
+    for (const stmt of module.statements) {
+        if (stmt.kind === 'ImportStmt') {
+            run.push(stmt);
+        } else if (run.length > 0) {
+            break;
+        }
+    }
+    return run;
+}
+
+/** Bare module names first, then relative paths, each alphabetically. */
+function compareModules(a: string, b: string): number {
+    const relative = (name: string) => name.startsWith('.') ? 1 : 0;
+    return relative(a) - relative(b) || a.localeCompare(b);
+}
@@ -0,0 +1,97 @@
+// =============================================================================
+// Inlay hints: inferred types and parameter names.
+//
+// Type hints follow un-annotated `var` and `for` variables whose type the
+// scope walker could infer; double-clicking one inserts it as a `: Type`
+// annotation.  Parameter name hints precede call arguments when the callee
+// is known from the receiver type and the argument count.
+// =============================================================================
+
+import * as vscode from 'vscode';
+import type { Module, Expr } from '../../wren-analyzer/src/index';
+import { walkModule } from './scopes';
+import type { CallSite } from './scopes';
+import { AggregatedWorkspaceIndex } from './types';
+
+export interface InlayHintOptions {
+    variableTypes: boolean;
+    parameterNames: boolean;
+}
+
+/** Build the inlay hints that fall inside `range`. */
+export function buildInlayHints(
+    document: vscode.TextDocument,
+    module: Module,
+    aggregate: AggregatedWorkspaceIndex,
+    range: vscode.Range,
+    options: InlayHintOptions,
+): vscode.InlayHint[] {
+    const hints: vscode.InlayHint[] = [];
+    const offsets = { start: document.offsetAt(range.start), end: document.offsetAt(range.end) };
+    const inRange = (offset: number) => offset >= offsets.start && offset <= offsets.end;
+
+    walkModule(module, {
+        declaration: binding => {
+            // `var x = null` says nothing about the values assigned later, and a
+            // `: Null` annotation would make the type checker reject them
+            if (!options.variableTypes || binding.annotated || !binding.type || binding.type === 'Null') return;
+            if (binding.kind !== 'local' && binding.kind !== 'module' && binding.kind !== 'for') return;
+            const end = binding.token.start + binding.token.length;
+            if (!inRange(end)) return;
+
+            const position = document.positionAt(end);
+            const hint = new vscode.InlayHint(position, `: ${binding.type}`, vscode.InlayHintKind.Type);
+            hint.textEdits = [vscode.TextEdit.insert(position, `: ${binding.type}`)];
+            hint.tooltip = 'Double-click to add the type annotation';
+            hints.push(hint);
+        },
+        call: site => {
+            if (!options.parameterNames) return;
+            const params = calleeParameters(site, aggregate);
+            const args: Expr[] = site.node.arguments ?? [];
+            if (!params) return;
+            args.forEach((arg, i) => {
+                const start = exprStart(arg);
+                const param = params[i];
+                if (start === null || !param || !inRange(start) || isSameName(arg, param)) return;
+                const hint = new vscode.InlayHint(document.positionAt(start), `${param}:`, vscode.InlayHintKind.Parameter);
+                hint.paddingRight = true;
+                hints.push(hint);
+            });
+        },
+    }, { range: offsets, aggregate });
+
+    return hints;
+}
+
+/** Parameter names of the method a call reaches, or null when it cannot be told. */
+function calleeParameters(site: CallSite, aggregate: AggregatedWorkspaceIndex): string[] | null {
+    if (site.arity === null || site.arity === 0 || site.receiver.type === null) {
+        return null;
+    }
+    const bucket = aggregate.classes.get(site.receiver.type);
+    const overloads = (site.receiver.isStatic ? bucket?.staticMethods : bucket?.methods)?.get(site.methodName);
+    return overloads?.find(m => m.params.length === site.arity)?.params ?? null;
+}
+
+/** `foo(count)` for a parameter named `count` needs no hint. */
+function isSameName(arg: Expr, param: string): boolean {
+    return arg.kind === 'CallExpr' && arg.receiver === null && arg.arguments === null && arg.name.text === param;
+}
+
+/** Offset of the first token in an expression, found through its child nodes. */
+function exprStart(node: unknown): number | null {
+    if (!node || typeof node !== 'object') return null;
+    if ('start' in node && 'length' in node && 'text' in node) {
+        return (node as { start: number }).start;
+    }
+    let min: number | null = null;
+    for (const value of Object.values(node)) {
+        const children = Array.isArray(value) ? value : [value];
+        for (const child of children) {
+            const start = exprStart(child);
+            if (start !== null && (min === null || start < min)) min = start;
+        }
+    }
+    return min;
+}
@@ -1,11 +1,14 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { AggregatedClassIndex, AggregatedWorkspaceIndex, WrenClassSymbol, WrenFileIndex } from './types';
+import { AggregatedClassIndex, AggregatedWorkspaceIndex, ImportCycle, WrenClassSymbol, WrenFileIndex, WrenImportSymbol } from './types';
 import { analyzeDocument, resolveTypeAtPosition } from './astIndex';
 import type { AnalysisOutput, TypeResolution } from './astIndex';
+import { circularImportDiagnostic, unusedImportDiagnostics } from './imports';
+import { ImportGraph } from './importGraph';
 import type { Module } from '../../wren-analyzer/src/index';
 import { ModuleResolver, isBuiltinModule } from '../../wren-analyzer/src/index';
+import { getCoreRegistry } from '../../wren-analyzer/src/core/core-registry';
 import { getBuiltinClasses, CORE_CLASSES } from './builtins';
 
 interface CachedAnalysis {
@@ -16,12 +19,31 @@ interface CachedAnalysis {
 
 interface ExternalCacheEntry {
     analysis: CachedAnalysis;
+    document: vscode.TextDocument;
     mtime: number;
 }
 
 interface IndexEntry {
     classes: WrenClassSymbol[];
     visibleNames: Set<string> | null;
+    /** Source file of the entry; undefined for core and built-in modules */
+    fsPath?: string;
+}
+
+interface CachedAggregate {
+    /** Version of the document the aggregate was built for */
+    version: number;
+    aggregate: AggregatedWorkspaceIndex;
+}
+
+/** A change to a `.wren` file on disk. */
+export type ModuleChange = 'created' | 'changed' | 'deleted';
+
+/** A file's text document together with its analysis, for cross-file AST walks. */
+export interface AnalyzedFile {
+    document: vscode.TextDocument;
+    index: WrenFileIndex;
+    module: Module;
 }
 
 export class WrenLanguageService {
@@ -29,6 +51,11 @@ export class WrenLanguageService {
     private readonly externalCache = new Map<string, ExternalCacheEntry>();
     /** Most recent error-free analysis per file, used as IntelliSense fallback. */
     private readonly lastGoodCache = new Map<string, CachedAnalysis>();
+    /** Workspace aggregate per document; dropped when the document or a module it imports changes. */
+    private readonly aggregateCache = new Map<string, CachedAggregate>();
+    private readonly importGraph = new ImportGraph();
+    /** Files whose documents the service is loading itself, rather than an editor */
+    private readonly loading = new Set<string>();
     private additionalSearchRoots: string[] = [];
     private enableDiagnostics: boolean = true;
 
@@ -40,6 +67,7 @@ export class WrenLanguageService {
         if (!event || event.affectsConfiguration('wren.additionalModuleDirectories')) {
             this.refreshConfiguration();
             this.externalCache.clear();
+            this.aggregateCache.clear();
         }
         if (event && event.affectsConfiguration('wren.enableDiagnostics')) {
             this.refreshConfiguration();
@@ -49,12 +77,56 @@ export class WrenLanguageService {
     invalidateDocument(document: vscode.TextDocument) {
         const key = document.uri.fsPath;
         this.documentCache.delete(key);
+        // Files importing this one see its classes through their aggregates
+        for (const fsPath of [key, ...this.importGraph.dependentsOf(key)]) {
+            this.aggregateCache.delete(fsPath);
+        }
     }
 
     evictPath(fsPath: string) {
         this.documentCache.delete(fsPath);
         this.externalCache.delete(fsPath);
         this.lastGoodCache.delete(fsPath);
+        this.aggregateCache.delete(fsPath);
+    }
+
+    /**
+     * Forget what is cached about a module that was created, changed, or
+     * deleted on disk, and about every file that depends on it.  Returns the
+     * dependents, whose diagnostics are now stale.
+     */
+    moduleChanged(fsPath: string, change: ModuleChange): string[] {
+        const affected = new Set<string>();
+        if (change === 'created') {
+            // An import that did not resolve, or resolved to another file, may now find this one
+            for (const file of this.importGraph.files()) {
+                const changed = this.importGraph.importsOf(file)
+                    .some(edge => edge.resolved !== this.resolveModulePathForFile(file, edge.moduleName));
+                if (changed) {
+                    affected.add(file);
+                }
+            }
+            for (const file of [...affected]) {
+                this.importGraph.dependentsOf(file).forEach(dependent => affected.add(dependent));
+            }
+        } else {
+            this.importGraph.dependentsOf(fsPath).forEach(dependent => affected.add(dependent));
+        }
+
+        if (change === 'deleted') {
+            this.importGraph.remove(fsPath);
+            this.evictPath(fsPath);
+        } else {
+            this.externalCache.delete(fsPath);
+            this.aggregateCache.delete(fsPath);
+        }
+        affected.delete(fsPath);
+        for (const file of affected) {
+            this.documentCache.delete(file);
+            this.externalCache.delete(file);
+            this.aggregateCache.delete(file);
+        }
+        return [...affected];
     }
 
     /** Run full analysis (lexer + parser + resolver + type-checker) and cache the result. */
@@ -70,6 +142,7 @@ export class WrenLanguageService {
             const { index, diagnostics, module } = analyzeDocument(document, searchPaths);
             const entry = { index, diagnostics, module };
             this.documentCache.set(key, entry);
+            this.recordImports(index);
 
             // If this parse was clean (no parse errors), save as last-good
             const hasParseErrors = diagnostics.some(d => String(d.code) === 'parse-error');
@@ -90,6 +163,7 @@ export class WrenLanguageService {
                 version: document.version,
                 classes: [],
                 imports: [],
+                variables: [],
                 parsedAt: Date.now(),
             };
             return { index: emptyIndex, diagnostics: [], module: { kind: 'Module', statements: [] } };
@@ -120,7 +194,7 @@ export class WrenLanguageService {
      * Build the list of search paths for module resolution.
      * Includes the file's own directory plus any configured additional roots.
      */
-    private getSearchPaths(document: vscode.TextDocument): string[] {
+    getSearchPaths(document: vscode.TextDocument): string[] {
         const paths: string[] = [];
         // The file's own directory (for sibling imports)
         paths.push(path.dirname(document.uri.fsPath));
@@ -145,13 +219,52 @@ export class WrenLanguageService {
     }
 
     async getDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
-        const all = this.analyzeAndCache(document).diagnostics;
+        const { diagnostics, module } = this.analyzeAndCache(document);
+        return [
+            ...this.reportedDiagnostics(document, diagnostics, module),
+            ...await this.cycleDiagnostics(document.uri.fsPath),
+        ];
+    }
+
+    /**
+     * Diagnostics for a file by filesystem path: its open document's when it is
+     * open, otherwise those of its contents on disk.  Undefined when the file
+     * cannot be read.
+     */
+    async getDiagnosticsForPath(fsPath: string): Promise<vscode.Diagnostic[] | undefined> {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === fsPath);
+        if (document) {
+            return this.getDiagnostics(document);
+        }
+        if (!(await this.loadExternal(fsPath))) {
+            return undefined;
+        }
+        const { analysis, document: diskDocument } = this.externalCache.get(fsPath)!;
+        return [
+            ...this.reportedDiagnostics(diskDocument, analysis.diagnostics, analysis.module),
+            ...await this.cycleDiagnostics(fsPath),
+        ];
+    }
+
+    private async cycleDiagnostics(fsPath: string): Promise<vscode.Diagnostic[]> {
+        if (!this.enableDiagnostics) {
+            return [];
+        }
+        return (await this.findImportCycles(fsPath)).map(circularImportDiagnostic);
+    }
+
+    /** Apply `wren.enableDiagnostics` and add unused-import hints to an analysis's diagnostics. */
+    private reportedDiagnostics(document: vscode.TextDocument, all: vscode.Diagnostic[], module: Module): vscode.Diagnostic[] {
         if (!this.enableDiagnostics) {
             // Keep parse/scope errors, suppress analyzer warnings
             const alwaysShow = new Set(['parse-error', 'duplicate-variable', 'undefined-variable']);
             return all.filter(d => alwaysShow.has(String(d.code)));
         }
-        return all;
+        // A partial AST would report names used in the unparsed code as unused
+        if (all.some(d => String(d.code) === 'parse-error')) {
+            return all;
+        }
+        return [...all, ...unusedImportDiagnostics(document, module)];
     }
 
     /**
@@ -163,6 +276,16 @@ export class WrenLanguageService {
         return resolveTypeAtPosition(cached.module, offset);
     }
 
+    /**
+     * Return the Module AST of the document's current text, or null when it has
+     * parse errors (callers that rewrite source must not trust a partial AST).
+     */
+    getCleanModule(document: vscode.TextDocument): Module | null {
+        const current = this.analyzeAndCache(document);
+        const hasParseErrors = current.diagnostics.some(d => String(d.code) === 'parse-error');
+        return hasParseErrors ? null : current.module;
+    }
+
     /** Return the cached Module AST for IntelliSense purposes. */
     getModule(document: vscode.TextDocument): Module {
         return this.getAnalysisForIntellisense(document).module;
@@ -180,13 +303,241 @@ export class WrenLanguageService {
         return resolver.resolve(moduleName, document.uri.fsPath);
     }
 
+    /**
+     * Shortest module name that imports `targetPath` from the given document:
+     * a name relative to one of the search paths, or a `./` / `../` path.
+     * Returns null when no name resolves back to the target.
+     */
+    moduleNameFor(document: vscode.TextDocument, targetPath: string): string | null {
+        const withoutExtension = targetPath.replace(/\.wren$/, '');
+        const candidates: string[] = [];
+        for (const root of this.getSearchPaths(document)) {
+            const relative = path.relative(root, withoutExtension);
+            if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+                candidates.push(relative.split(path.sep).join('/'));
+            }
+        }
+        const fromDocument = path.relative(path.dirname(document.uri.fsPath), withoutExtension).split(path.sep).join('/');
+        candidates.push(fromDocument.startsWith('../') ? fromDocument : `./${fromDocument}`);
+
+        candidates.sort((a, b) => a.length - b.length);
+        return candidates.find(name => {
+            const resolved = this.resolveModulePath(document, name);
+            return resolved !== null && path.resolve(resolved) === path.resolve(targetPath);
+        }) ?? null;
+    }
+
+    /**
+     * Whether the document for a file is being loaded by the service, to analyze
+     * it from disk.  `onDidOpenTextDocument` fires for these loads too.
+     */
+    isLoading(uri: vscode.Uri): boolean {
+        return this.loading.has(uri.fsPath);
+    }
+
+    /** Absolute paths of the configured `wren.additionalModuleDirectories`. */
+    getAdditionalSearchRoots(): string[] {
+        return [...this.additionalSearchRoots];
+    }
+
+    /** Resolve a Wren module name imported from the file at `fsPath`. */
+    resolveModulePathForFile(fsPath: string, moduleName: string): string | null {
+        const resolver = new ModuleResolver(this.getSearchPathsForFile(fsPath));
+        return resolver.resolve(moduleName, fsPath);
+    }
+
+    /** Load a file's document, index and module AST by filesystem path. */
+    async getAnalyzedFile(fsPath: string): Promise<AnalyzedFile | undefined> {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === fsPath);
+        if (document) {
+            const { index, module } = this.getAnalysisForIntellisense(document);
+            return { document, index, module };
+        }
+        return this.loadExternal(fsPath);
+    }
+
+    /**
+     * Files whose code can refer to symbols visible in `document`: the document
+     * itself, every module reachable through its imports, and every workspace
+     * file that (transitively) imports it.
+     */
+    async getRelatedFiles(document: vscode.TextDocument): Promise<string[]> {
+        const rootIndex = await this.getFileIndex(document);
+        const entries = await this.collectWorkspaceEntries(rootIndex);
+        const files = new Set<string>();
+        for (const entry of entries) {
+            if (entry.fsPath) {
+                files.add(entry.fsPath);
+            }
+        }
+        for (const importer of await this.findImporters(document.uri.fsPath)) {
+            files.add(importer);
+        }
+        return [...files];
+    }
+
+    /**
+     * Every class declared in the workspace, plus those reachable through the
+     * document's imports (which may live in additional module directories).
+     * Core and built-in-module classes are not included.
+     */
+    async getWorkspaceClasses(document: vscode.TextDocument): Promise<WrenClassSymbol[]> {
+        const byFile = new Map<string, WrenClassSymbol[]>();
+        for (const entry of await this.collectWorkspaceEntries(await this.getFileIndex(document))) {
+            if (entry.fsPath) {
+                byFile.set(entry.fsPath, entry.classes);
+            }
+        }
+        for (const uri of await vscode.workspace.findFiles('**/*.wren')) {
+            if (byFile.has(uri.fsPath)) continue;
+            const index = await this.loadIndex(uri.fsPath);
+            if (index) {
+                byFile.set(uri.fsPath, index.classes);
+            }
+        }
+        return [...byFile.values()].flat();
+    }
+
+    /** Workspace files that import `fsPath`, directly or through other modules. */
+    async findImporters(fsPath: string): Promise<string[]> {
+        const importedBy = new Map<string, string[]>();
+        const uris = await vscode.workspace.findFiles('**/*.wren');
+        for (const uri of uris) {
+            const index = await this.loadIndex(uri.fsPath);
+            if (!index) {
+                continue;
+            }
+            for (const imp of index.imports) {
+                if (isBuiltinModule(imp.moduleName)) {
+                    continue;
+                }
+                const resolved = this.resolveModulePathForFile(uri.fsPath, imp.moduleName);
+                if (resolved) {
+                    const list = importedBy.get(resolved) ?? [];
+                    list.push(uri.fsPath);
+                    importedBy.set(resolved, list);
+                }
+            }
+        }
+
+        const result = new Set<string>();
+        const pending = [fsPath];
+        while (pending.length > 0) {
+            const current = pending.pop()!;
+            for (const importer of importedBy.get(current) ?? []) {
+                if (importer !== fsPath && !result.has(importer)) {
+                    result.add(importer);
+                    pending.push(importer);
+                }
+            }
+        }
+        return [...result];
+    }
+
+    /**
+     * Imports of the file that lead back to it, each with the shortest cycle
+     * it completes.  Modules are run in import order, so a cycle means some
+     * module runs before the modules it imports have finished.
+     */
+    async findImportCycles(fsPath: string): Promise<ImportCycle[]> {
+        const cycles: ImportCycle[] = [];
+        for (const imp of (await this.loadIndex(fsPath))?.imports ?? []) {
+            if (isBuiltinModule(imp.moduleName)) {
+                continue;
+            }
+            const target = this.resolveModulePathForFile(fsPath, imp.moduleName);
+            const rest = target ? await this.findImportChain(target, fsPath) : null;
+            if (rest) {
+                cycles.push({ files: [fsPath, ...rest.files], imports: [imp, ...rest.imports] });
+            }
+        }
+        return cycles;
+    }
+
+    /** Shortest chain of imports from one file to another, breadth first. */
+    private async findImportChain(from: string, to: string): Promise<ImportCycle | null> {
+        if (from === to) {
+            return { files: [to], imports: [] };
+        }
+        // How each reached file was first reached: from which file, through which import
+        const reachedBy = new Map<string, { file: string; imp: WrenImportSymbol } | null>([[from, null]]);
+        const queue = [from];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const imp of (await this.loadIndex(current))?.imports ?? []) {
+                if (isBuiltinModule(imp.moduleName)) {
+                    continue;
+                }
+                const next = this.resolveModulePathForFile(current, imp.moduleName);
+                if (!next || reachedBy.has(next)) {
+                    continue;
+                }
+                reachedBy.set(next, { file: current, imp });
+                if (next !== to) {
+                    queue.push(next);
+                    continue;
+                }
+                const chain: ImportCycle = { files: [to], imports: [] };
+                for (let step = reachedBy.get(to); step; step = reachedBy.get(step.file)) {
+                    chain.files.unshift(step.file);
+                    chain.imports.unshift(step.imp);
+                }
+                return chain;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * The import graph of the given files and every module they import,
+     * transitively: each file with the files it imports.  Built-in and
+     * unresolved modules are left out.
+     */
+    async getImportGraph(files: string[]): Promise<Map<string, string[]>> {
+        const graph = new Map<string, string[]>();
+        const pending = [...files];
+        while (pending.length > 0) {
+            const file = pending.pop()!;
+            if (graph.has(file)) {
+                continue;
+            }
+            const targets: string[] = [];
+            for (const imp of (await this.loadIndex(file))?.imports ?? []) {
+                const target = isBuiltinModule(imp.moduleName) ? null : this.resolveModulePathForFile(file, imp.moduleName);
+                if (target && !targets.includes(target)) {
+                    targets.push(target);
+                    pending.push(target);
+                }
+            }
+            graph.set(file, targets);
+        }
+        return graph;
+    }
+
     async getWorkspaceAggregate(document: vscode.TextDocument): Promise<AggregatedWorkspaceIndex> {
+        const key = document.uri.fsPath;
+        const cached = this.aggregateCache.get(key);
+        if (cached && cached.version === document.version) {
+            return cached.aggregate;
+        }
+        const aggregate = await this.buildWorkspaceAggregate(document);
+        this.aggregateCache.set(key, { version: document.version, aggregate });
+        return aggregate;
+    }
+
+    private async buildWorkspaceAggregate(document: vscode.TextDocument): Promise<AggregatedWorkspaceIndex> {
         const rootIndex = await this.getFileIndex(document);
         const entries = await this.collectWorkspaceEntries(rootIndex);
         const classes = new Map<string, AggregatedClassIndex>();
+        // Every reachable class, visible or not: a superclass need not be imported
+        const declared = new Map<string, WrenClassSymbol>();
 
         for (const { classes: entryClasses, visibleNames } of entries) {
             for (const cls of entryClasses) {
+                if (!declared.has(cls.name)) {
+                    declared.set(cls.name, cls);
+                }
+
                 // If imported with `for X, Y`, only include listed classes
                 if (visibleNames !== null && !visibleNames.has(cls.name)) {
                     continue;
@@ -196,6 +547,9 @@ export class WrenLanguageService {
                 if (!bucket) {
                     bucket = {
                         name: cls.name,
+                        superclass: superclassOf(cls),
+                        ancestors: [],
+                        documentation: cls.documentation,
                         methods: new Map(),
                         staticMethods: new Map()
                     };
@@ -216,6 +570,25 @@ export class WrenLanguageService {
             }
         }
 
+        // Inherit instance methods along the superclass chain. Nearest ancestors
+        // come first, so an override hides the methods further up.
+        for (const bucket of classes.values()) {
+            bucket.ancestors = superclassChain(bucket.superclass, declared);
+            for (const ancestorName of bucket.ancestors) {
+                for (const method of declared.get(ancestorName)?.methods ?? []) {
+                    if (method.isConstructor) {
+                        continue;
+                    }
+                    const list = bucket.methods.get(method.name) ?? [];
+                    if (list.some(m => m.params.length === method.params.length)) {
+                        continue;
+                    }
+                    list.push(method);
+                    bucket.methods.set(method.name, list);
+                }
+            }
+        }
+
         return { classes };
     }
 
@@ -241,6 +614,7 @@ export class WrenLanguageService {
             results.push({
                 classes: current.index.classes,
                 visibleNames: current.visibleNames,
+                fsPath,
             });
 
             for (const imp of current.index.imports) {
@@ -256,9 +630,7 @@ export class WrenLanguageService {
                 }
 
                 // User modules: resolve from disk using the analyzer's ModuleResolver
-                const resolver = new ModuleResolver(this.getSearchPathsForFile(fsPath));
-                const moduleName = imp.moduleName;
-                const resolvedPath = resolver.resolve(moduleName, fsPath);
+                const resolvedPath = this.resolveModulePathForFile(fsPath, imp.moduleName);
                 if (resolvedPath && !visited.has(resolvedPath)) {
                     const index = await this.loadIndex(resolvedPath);
                     if (index) {
@@ -294,25 +666,46 @@ export class WrenLanguageService {
         if (document) {
             return this.getFileIndex(document);
         }
+        return (await this.loadExternal(fsPath))?.index;
+    }
 
+    /** Analyze a file that is not open in the editor, cached by mtime. */
+    private async loadExternal(fsPath: string): Promise<AnalyzedFile | undefined> {
         try {
             const stat = await fs.stat(fsPath);
             const cached = this.externalCache.get(fsPath);
             if (cached && cached.mtime === stat.mtimeMs) {
-                return cached.analysis.index;
+                return { document: cached.document, index: cached.analysis.index, module: cached.analysis.module };
             }
 
             const fileUri = vscode.Uri.file(fsPath);
-            const diskDocument = await vscode.workspace.openTextDocument(fileUri);
+            let diskDocument: vscode.TextDocument;
+            this.loading.add(fsPath);
+            try {
+                diskDocument = await vscode.workspace.openTextDocument(fileUri);
+            } finally {
+                this.loading.delete(fsPath);
+            }
             const searchPaths = this.getSearchPaths(diskDocument);
             const analysis = analyzeDocument(diskDocument, searchPaths);
-            this.externalCache.set(fsPath, { analysis, mtime: stat.mtimeMs });
-            return analysis.index;
+            this.externalCache.set(fsPath, { analysis, document: diskDocument, mtime: stat.mtimeMs });
+            this.recordImports(analysis.index);
+            return { document: diskDocument, index: analysis.index, module: analysis.module };
         } catch {
             return undefined;
         }
     }
 
+    private recordImports(index: WrenFileIndex): void {
+        const fsPath = index.uri.fsPath;
+        this.importGraph.setImports(fsPath, index.imports
+            .filter(imp => !isBuiltinModule(imp.moduleName))
+            .map(imp => ({
+                moduleName: imp.moduleName,
+                resolved: this.resolveModulePathForFile(fsPath, imp.moduleName),
+            })));
+    }
+
     private refreshConfiguration() {
         const config = vscode.workspace.getConfiguration('wren');
         const userPaths = config.get<string[]>('additionalModuleDirectories', []) ?? [];
@@ -336,3 +729,34 @@ export class WrenLanguageService {
         this.enableDiagnostics = config.get<boolean>('enableDiagnostics', true);
     }
 }
+
+/** The declared superclass, falling back to the core registry and then to `Object`. */
+export function superclassOf(cls: WrenClassSymbol): string | null {
+    if (cls.superclass) {
+        return cls.superclass;
+    }
+    const info = getCoreRegistry().get(cls.name);
+    if (info?.superclass) {
+        return info.superclass;
+    }
+    return cls.name === 'Object' ? null : 'Object';
+}
+
+/** Walk superclasses from `start` upwards, stopping at cycles and unknown classes. */
+function superclassChain(start: string | null, declared: Map<string, WrenClassSymbol>): string[] {
+    const chain: string[] = [];
+    let current = start;
+    while (current && !chain.includes(current)) {
+        chain.push(current);
+        const cls = declared.get(current);
+        if (!cls) {
+            // Unknown class (e.g. unresolved import): it still derives from Object
+            if (current !== 'Object') {
+                chain.push('Object');
+            }
+            break;
+        }
+        current = superclassOf(cls);
+    }
+    return chain;
+}
@@ -0,0 +1,76 @@
+// =============================================================================
+// Module name candidates for completion inside `import "..."` strings.
+//
+// Mirrors the analyzer's ModuleResolver: `./` and `../` paths are relative to
+// the importing file; bare names are looked up in each search path in order,
+// and the first match wins.
+// =============================================================================
+
+import * as fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import * as path from 'path';
+
+/** Modules provided by the Wren VM rather than by files. */
+export const BUILTIN_MODULE_NAMES = ['random', 'meta'];
+
+export interface ModuleCandidate {
+    /** Last path segment as it should be inserted (folders end with `/`) */
+    label: string;
+    /** Module name as it would be written in full, e.g. "engine/math" */
+    moduleName: string;
+    isFolder: boolean;
+    /** The file or folder the candidate resolves to; undefined for builtin modules */
+    fsPath?: string;
+}
+
+/**
+ * List the modules and folders that can complete `typed`, the text between
+ * the opening quote and the cursor.  Only the last path segment is offered;
+ * the folder segments before it must already exist.
+ */
+export async function listModuleCandidates(
+    typed: string,
+    importerPath: string,
+    searchPaths: string[],
+): Promise<ModuleCandidate[]> {
+    const slash = typed.lastIndexOf('/');
+    const folder = typed.slice(0, slash + 1);
+    const isRelative = typed.startsWith('./') || typed.startsWith('../');
+    const roots = isRelative ? [path.dirname(importerPath)] : searchPaths;
+
+    const candidates = new Map<string, ModuleCandidate>();
+    const add = (candidate: ModuleCandidate) => {
+        if (!candidates.has(candidate.label)) {
+            candidates.set(candidate.label, candidate);
+        }
+    };
+
+    if (!isRelative && folder === '') {
+        BUILTIN_MODULE_NAMES.forEach(name => add({ label: name, moduleName: name, isFolder: false }));
+    }
+
+    for (const root of roots) {
+        const dir = path.resolve(root, folder);
+        let entries: Dirent[];
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+        // Stable order, so the same search path always wins a tie
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+                    add({ label: `${entry.name}/`, moduleName: `${folder}${entry.name}`, isFolder: true, fsPath: full });
+                }
+            } else if (entry.isFile() && entry.name.endsWith('.wren') && full !== importerPath) {
+                const name = entry.name.slice(0, -'.wren'.length);
+                add({ label: name, moduleName: `${folder}${name}`, isFolder: false, fsPath: full });
+            }
+        }
+    }
+
+    return [...candidates.values()];
+}
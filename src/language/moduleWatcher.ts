@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { WrenLanguageService } from './languageService';
+import type { ModuleChange } from './languageService';
+
+/** Wait for changes on disk to settle, so a branch switch is reported once. */
+const NOTIFY_DEBOUNCE_MS = 300;
+
+/** A `.wren` file that was created, changed, or deleted on disk. */
+export interface ModuleFileEvent {
+    uri: vscode.Uri;
+    change: ModuleChange;
+}
+
+/**
+ * Watches the `.wren` files of the workspace folders and
+ * `wren.additionalModuleDirectories`: the one set of file system watchers the
+ * extension has.  When a file is created, changed, or deleted (a rename is a
+ * delete and a create), the language service forgets what it cached about it
+ * and the files that import it, then the change is reported through
+ * `onDidChangeFile`.  The importing files are reported through
+ * `onDidInvalidate` so their diagnostics can be refreshed.
+ */
+export class ModuleWatcher implements vscode.Disposable {
+    private readonly fileEmitter = new vscode.EventEmitter<ModuleFileEvent>();
+    /** A `.wren` file changed on disk; the language service has already dropped its caches. */
+    readonly onDidChangeFile = this.fileEmitter.event;
+    private readonly invalidateEmitter = new vscode.EventEmitter<string[]>();
+    /** Files whose diagnostics went stale because a module they import changed on disk. */
+    readonly onDidInvalidate = this.invalidateEmitter.event;
+
+    private readonly disposables: vscode.Disposable[] = [];
+    private watchers: vscode.Disposable[] = [];
+    private readonly invalidated = new Set<string>();
+    private notifyTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(private readonly service: WrenLanguageService) {
+        this.disposables.push(
+            this.fileEmitter,
+            this.invalidateEmitter,
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.watch()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('wren.additionalModuleDirectories')) {
+                    this.watch();
+                }
+            }),
+        );
+        this.watch();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.watchers.forEach(d => d.dispose());
+        clearTimeout(this.notifyTimer);
+    }
+
+    private watch(): void {
+        this.watchers.forEach(d => d.dispose());
+        this.watchers = [];
+
+        const patterns: vscode.GlobPattern[] = ['**/*.wren'];
+        for (const root of this.service.getAdditionalSearchRoots()) {
+            patterns.push(new vscode.RelativePattern(vscode.Uri.file(root), '**/*.wren'));
+        }
+        for (const pattern of patterns) {
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            watcher.onDidCreate(uri => this.handle(uri, 'created'));
+            watcher.onDidChange(uri => this.handle(uri, 'changed'));
+            watcher.onDidDelete(uri => this.handle(uri, 'deleted'));
+            this.watchers.push(watcher);
+        }
+    }
+
+    private handle(uri: vscode.Uri, change: ModuleChange): void {
+        const affected = this.service.moduleChanged(uri.fsPath, change);
+        this.fileEmitter.fire({ uri, change });
+        if (affected.length === 0) {
+            return;
+        }
+        affected.forEach(fsPath => this.invalidated.add(fsPath));
+        clearTimeout(this.notifyTimer);
+        this.notifyTimer = setTimeout(() => {
+            const files = [...this.invalidated];
+            this.invalidated.clear();
+            this.invalidateEmitter.fire(files);
+        }, NOTIFY_DEBOUNCE_MS);
+    }
+}
@@ -0,0 +1,314 @@
+// =============================================================================
+// Source extents: where methods and blocks end, folding, and Expand Selection.
+//
+// The analyzer's `Body` does not record its braces, so the end of a method or
+// block is found by matching `{`/`}` in the formatter's token stream, which
+// already skips strings, interpolations and comments.  Expression and
+// statement extents come from the tokens an AST node holds, widened to the
+// brackets and leading keyword the node does not record.
+// =============================================================================
+
+import * as vscode from 'vscode';
+import type { Module, ClassStmt, Method, ImportStmt } from '../../wren-analyzer/src/index';
+import { lex } from './formatter';
+import type { Token as SourceToken } from './formatter';
+
+/** A half-open offset range `[start, end)`. */
+export interface Span {
+    start: number;
+    end: number;
+}
+
+/** Offsets of a matched `{` and its `}`. */
+export interface BracePair {
+    open: number;
+    close: number;
+}
+
+/** Keywords that start a statement but are not kept in its AST node. */
+const STATEMENT_KEYWORDS = new Set(['var', 'if', 'while', 'for', 'return', 'import']);
+
+export class SourceLayout {
+    readonly tokens: SourceToken[];
+    /** Every matched brace pair, ordered by the opening brace */
+    readonly braces: BracePair[];
+
+    constructor(private readonly text: string) {
+        this.tokens = lex(text);
+        this.braces = [];
+        const open: number[] = [];
+        for (const token of this.tokens) {
+            if (token.text === '{') {
+                open.push(token.start);
+            } else if (token.text === '}' && open.length > 0) {
+                this.braces.push({ open: open.pop()!, close: token.start });
+            }
+        }
+        this.braces.sort((a, b) => a.open - b.open);
+    }
+
+    /**
+     * Offset just past the `}` closing a method's body.  Foreign methods have no
+     * body and end with the last token of their declaration line.
+     */
+    methodEnd(method: Method): number {
+        const nameEnd = method.name.start + method.name.length;
+        if (method.body) {
+            // Parameters and return types hold no braces: the first `{` opens the body
+            const body = this.braces.find(pair => pair.open >= nameEnd);
+            if (body) return body.close + 1;
+        }
+        const newline = this.text.indexOf('\n', nameEnd);
+        const lineEnd = newline === -1 ? this.text.length : newline;
+        let end = nameEnd;
+        for (let i = this.tokenIndexAt(nameEnd); i < this.tokens.length && this.tokens[i].start < lineEnd; i++) {
+            if (this.tokens[i].kind !== 'comment') end = this.tokens[i].end;
+        }
+        return end;
+    }
+
+    methodSpan(method: Method): Span {
+        return { start: methodStart(method), end: this.methodEnd(method) };
+    }
+
+    /**
+     * Extent of an AST node: from its first to its last token, widened to
+     * balance the brackets it leaves out (a call's closing `)`, a `for`'s `(`)
+     * and, for statements, to the keyword that introduces it.
+     */
+    nodeSpan(node: { kind?: string }): Span | null {
+        const bounds = tokenBounds(node);
+        if (!bounds) return null;
+
+        let first = this.tokenIndexAt(bounds.start);
+        let last = this.tokenIndexAt(bounds.end) - 1;
+        if (first > last) return bounds;
+
+        let unclosed = 0;
+        let unopened = 0;
+        for (let i = first; i <= last; i++) {
+            const kind = this.tokens[i].kind;
+            if (kind === 'open') unclosed++;
+            else if (kind === 'close' && unclosed > 0) unclosed--;
+            else if (kind === 'close') unopened++;
+        }
+        while (unclosed > 0 && last + 1 < this.tokens.length) {
+            const kind = this.tokens[++last].kind;
+            if (kind === 'close') unclosed--;
+            else if (kind === 'open') unclosed++;
+        }
+        while (unopened > 0 && first > 0) {
+            const kind = this.tokens[--first].kind;
+            if (kind === 'open') unopened--;
+            else if (kind === 'close') unopened++;
+        }
+        if (node.kind?.endsWith('Stmt') && first > 0) {
+            const previous = this.tokens[first - 1];
+            if (previous.kind === 'word' && STATEMENT_KEYWORDS.has(previous.text)) first--;
+        }
+        return { start: this.tokens[first].start, end: this.tokens[last].end };
+    }
+
+    /** Index of the first token starting at or after `offset`. */
+    private tokenIndexAt(offset: number): number {
+        let low = 0;
+        let high = this.tokens.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this.tokens[mid].start < offset) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    }
+}
+
+/** Offset where a method declaration starts (its first keyword or its name). */
+export function methodStart(method: Method): number {
+    return method.foreignKeyword?.start
+        ?? method.staticKeyword?.start
+        ?? method.constructKeyword?.start
+        ?? method.name.start;
+}
+
+// -----------------------------------------------------------------------------
+// Folding
+// -----------------------------------------------------------------------------
+
+/**
+ * Folding ranges for classes, methods, blocks, import groups, `///` runs and
+ * block comments.  Without a module (the file does not parse) only blocks and
+ * comments are folded.
+ */
+export function buildFoldingRanges(
+    document: vscode.TextDocument,
+    module: Module | null,
+    layout: SourceLayout,
+): vscode.FoldingRange[] {
+    const ranges: vscode.FoldingRange[] = [];
+    const startLines = new Set<number>();
+    const lineOf = (offset: number) => document.positionAt(offset).line;
+    const add = (startLine: number, endLine: number, kind?: vscode.FoldingRangeKind) => {
+        if (endLine <= startLine || startLines.has(startLine)) return;
+        startLines.add(startLine);
+        ranges.push(new vscode.FoldingRange(startLine, endLine, kind));
+    };
+    // Keep the closing brace visible, so `} else {` still shows its `else`
+    const addBraced = (start: number, close: number) => add(lineOf(start), lineOf(close) - 1);
+
+    const statements = module?.statements ?? [];
+    for (const cls of statements.filter((s: { kind: string }) => s.kind === 'ClassStmt') as ClassStmt[]) {
+        addBraced(cls.foreignKeyword?.start ?? cls.classKeyword.start, cls.rightBrace.start);
+        for (const method of cls.methods) {
+            if (method.body) addBraced(methodStart(method), layout.methodEnd(method) - 1);
+        }
+    }
+    for (const pair of layout.braces) {
+        addBraced(pair.open, pair.close);
+    }
+
+    let run: ImportStmt[] = [];
+    const flushImports = () => {
+        if (run.length > 1) {
+            const last = run[run.length - 1];
+            const lastToken = last.variables?.length ? last.variables[last.variables.length - 1] : last.path;
+            add(lineOf(run[0].path.start), lineOf(lastToken.start), vscode.FoldingRangeKind.Imports);
+        }
+        run = [];
+    };
+    for (const stmt of statements) {
+        if (stmt.kind === 'ImportStmt') run.push(stmt);
+        else flushImports();
+    }
+    flushImports();
+
+    let docStart = -1;
+    let docEnd = -1;
+    const flushDocs = () => {
+        if (docStart !== -1) add(docStart, docEnd, vscode.FoldingRangeKind.Comment);
+        docStart = -1;
+    };
+    for (const token of layout.tokens) {
+        if (token.kind !== 'comment') {
+            flushDocs();
+            continue;
+        }
+        const line = lineOf(token.start);
+        if (token.text.startsWith('///')) {
+            if (docStart !== -1 && line !== docEnd + 1) flushDocs();
+            if (docStart === -1) docStart = line;
+            docEnd = line;
+        } else {
+            flushDocs();
+            if (token.text.startsWith('/*')) add(line, lineOf(token.end), vscode.FoldingRangeKind.Comment);
+        }
+    }
+    flushDocs();
+
+    return ranges;
+}
+
+// -----------------------------------------------------------------------------
+// Selection ranges
+// -----------------------------------------------------------------------------
+
+/**
+ * Expand Selection at `position`: word, then each enclosing expression and
+ * statement, block (contents, then with braces), method, class, and the file.
+ * Without a module only words and blocks are known.
+ */
+export function buildSelectionRange(
+    document: vscode.TextDocument,
+    module: Module | null,
+    layout: SourceLayout,
+    position: vscode.Position,
+): vscode.SelectionRange {
+    const offset = document.offsetAt(position);
+    const contains = (span: Span) => span.start <= offset && offset <= span.end;
+    const spans: Span[] = [];
+
+    const word = document.getWordRangeAtPosition(position);
+    if (word) {
+        spans.push({ start: document.offsetAt(word.start), end: document.offsetAt(word.end) });
+    }
+
+    const visit = (node: unknown) => {
+        if (!node || typeof node !== 'object' || isToken(node)) return;
+        if (Array.isArray(node)) {
+            node.forEach(visit);
+            return;
+        }
+        let span: Span | null = null;
+        if (isMethod(node)) {
+            span = layout.methodSpan(node);
+        } else if ('kind' in node) {
+            span = layout.nodeSpan(node);
+        }
+        if (span) {
+            if (!contains(span)) return;
+            spans.push(span);
+        }
+        Object.values(node).forEach(visit);
+    };
+    module?.statements.forEach(visit);
+
+    for (const pair of layout.braces) {
+        if (pair.open > offset) break;
+        if (pair.close < offset) continue;
+        spans.push({ start: pair.open, end: pair.close + 1 });
+        const inner = innerSpan(layout, pair);
+        if (inner && contains(inner)) spans.push(inner);
+    }
+    spans.push({ start: 0, end: document.getText().length });
+
+    // Widest first; keep only spans that strictly contain the previous one
+    spans.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+    let selection: vscode.SelectionRange | undefined;
+    let outer: Span | undefined;
+    for (const span of spans) {
+        if (outer && (span.start < outer.start || span.end > outer.end
+            || (span.start === outer.start && span.end === outer.end))) {
+            continue;
+        }
+        selection = new vscode.SelectionRange(
+            new vscode.Range(document.positionAt(span.start), document.positionAt(span.end)),
+            selection,
+        );
+        outer = span;
+    }
+    return selection!;
+}
+
+/** The tokens between a pair of braces, without the surrounding whitespace. */
+function innerSpan(layout: SourceLayout, pair: BracePair): Span | null {
+    const inside = layout.tokens.filter(t => t.start > pair.open && t.end <= pair.close);
+    return inside.length > 0 ? { start: inside[0].start, end: inside[inside.length - 1].end } : null;
+}
+
+function isToken(node: object): boolean {
+    return 'start' in node && 'length' in node && 'text' in node;
+}
+
+function isMethod(node: object): node is Method {
+    return 'constructKeyword' in node && 'body' in node;
+}
+
+/** First and last token offsets found anywhere inside a node. */
+function tokenBounds(node: unknown): Span | null {
+    if (!node || typeof node !== 'object') return null;
+    if (isToken(node)) {
+        const token = node as { start: number; length: number };
+        return { start: token.start, end: token.start + token.length };
+    }
+    let bounds: Span | null = null;
+    for (const value of Object.values(node)) {
+        const children = Array.isArray(value) ? value : [value];
+        for (const child of children) {
+            const inner = tokenBounds(child);
+            if (!inner) continue;
+            bounds = bounds
+                ? { start: Math.min(bounds.start, inner.start), end: Math.max(bounds.end, inner.end) }
+                : inner;
+        }
+    }
+    return bounds;
+}
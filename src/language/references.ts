@@ -0,0 +1,255 @@
+// =============================================================================
+// Symbol targets and occurrences.
+//
+// Identifies the symbol under the cursor (class, method, field or variable)
+// and collects every occurrence of it in a module, using the scope walker.
+// =============================================================================
+
+import type { Module, Method, Token } from '../../wren-analyzer/src/index';
+import { TokenType } from '../../wren-analyzer/src/index';
+import { walkModule, methodArity, tokenContains } from './scopes';
+import type { CallSite, ScopeBinding } from './scopes';
+import type { AggregatedWorkspaceIndex } from './types';
+
+export type SymbolTarget =
+    | { kind: 'class'; name: string }
+    | {
+        kind: 'method';
+        /** Class the method belongs to, or null when the receiver type is unknown */
+        className: string | null;
+        name: string;
+        arity: number | null;
+        isStatic: boolean;
+    }
+    | { kind: 'field'; className: string; name: string; isStatic: boolean }
+    | { kind: 'variable'; name: string; declaration: Token; binding: ScopeBinding };
+
+export interface SymbolOccurrence {
+    token: Token;
+    isDeclaration: boolean;
+    isWrite: boolean;
+    /**
+     * False when the match is by name only: a call whose receiver type could
+     * not be resolved, so it may or may not dispatch to the target.
+     */
+    certain: boolean;
+}
+
+/** Method name as stored in WrenMethodSymbol (setters end with `=`). */
+export function methodSymbolName(method: Method): string {
+    return method.isSetter ? `${method.name.text}=` : method.name.text;
+}
+
+/** Subscript and operator methods have no identifier to rename or search for. */
+function isNamedMethod(method: Method): boolean {
+    return method.name.type !== TokenType.RightBracket && /^[A-Za-z_]/.test(method.name.text);
+}
+
+function methodTarget(method: Method, className: string): SymbolTarget {
+    return {
+        kind: 'method',
+        className,
+        name: methodSymbolName(method),
+        arity: methodArity(method),
+        // Constructors are invoked on the class, like static methods
+        isStatic: method.staticKeyword !== null || method.constructKeyword !== null,
+    };
+}
+
+function callTarget(site: CallSite): SymbolTarget {
+    return {
+        kind: 'method',
+        className: site.receiver.type,
+        name: site.methodName,
+        arity: site.arity,
+        isStatic: site.receiver.isStatic,
+    };
+}
+
+/** Find the symbol whose declaration or use covers the given offset. */
+export function findSymbolTarget(module: Module, offset: number): SymbolTarget | null {
+    let target: SymbolTarget | null = null;
+    const hit = (token: Token | null | undefined, make: () => SymbolTarget | null) => {
+        if (!target && token && tokenContains(token, offset)) {
+            target = make();
+        }
+    };
+
+    walkModule(module, {
+        classDeclaration: cls => hit(cls.name, () => ({ kind: 'class', name: cls.name.text })),
+        methodDeclaration: (method, cls) => {
+            if (isNamedMethod(method)) {
+                hit(method.name, () => methodTarget(method, cls.name.text));
+            }
+        },
+        declaration: binding => hit(binding.token, () => variableTarget(binding)),
+        variable: (token, binding) => hit(token, () => variableTarget(binding)),
+        classReference: token => hit(token, () => ({ kind: 'class', name: token.text })),
+        field: (token, isStatic, _isWrite, ctx) => hit(token, () => ctx.cls
+            ? { kind: 'field', className: ctx.cls.name.text, name: token.text, isStatic }
+            : null),
+        call: site => hit(site.token, () => callTarget(site)),
+    });
+
+    return target;
+}
+
+function variableTarget(binding: ScopeBinding): SymbolTarget {
+    // Capitalized module variables behave like class names across modules
+    if ((binding.kind === 'module' || binding.kind === 'import') && /^[A-Z]/.test(binding.name)) {
+        return { kind: 'class', name: binding.name };
+    }
+    return { kind: 'variable', name: binding.name, declaration: binding.token, binding };
+}
+
+export type MethodTarget = Extract<SymbolTarget, { kind: 'method' }>;
+
+export interface CollectOptions {
+    /**
+     * True when `type` inherits from `base`.  Lets instance method calls on a
+     * subclass match a method declared in an ancestor.
+     */
+    isSubtype?(type: string, base: string): boolean;
+    /** Workspace classes, for inferring receiver types of chained calls */
+    aggregate?: AggregatedWorkspaceIndex;
+}
+
+/**
+ * The method a target overrides, if any: an instance method is moved up to
+ * the topmost ancestor that declares it with the same arity, so the method,
+ * its overrides, and calls on every subclass receiver are treated as one.
+ */
+export function rootMethodTarget(target: MethodTarget, aggregate: AggregatedWorkspaceIndex): MethodTarget {
+    if (target.isStatic || target.className === null) {
+        return target;
+    }
+    let root = target.className;
+    for (const className of [target.className, ...(aggregate.classes.get(target.className)?.ancestors ?? [])]) {
+        // Each bucket holds the nearest declaration of the method as seen from that class
+        const declared = aggregate.classes.get(className)?.methods.get(target.name)
+            ?.find(m => !m.isConstructor && (target.arity === null || m.params.length === target.arity));
+        if (declared) {
+            root = declared.className;
+        }
+    }
+    return root === target.className ? target : { ...target, className: root };
+}
+
+/**
+ * Whether a call site may dispatch to the target method: true when it does,
+ * false when it might (the receiver type is unknown), null when it does not.
+ */
+export function matchCallSite(site: CallSite, target: MethodTarget, options: CollectOptions = {}): boolean | null {
+    if (site.methodName !== target.name
+        || site.arity !== target.arity
+        || site.receiver.isStatic !== target.isStatic) {
+        return null;
+    }
+    const receiverType = site.receiver.type;
+    if (receiverType === null || target.className === null) {
+        return false;
+    }
+    if (receiverType === target.className
+        || (!target.isStatic && options.isSubtype?.(receiverType, target.className))) {
+        return true;
+    }
+    return null;
+}
+
+/**
+ * Collect every occurrence of the target in a module.
+ *
+ * Variables are matched by declaration, so shadowed names in other scopes are
+ * not included.  Methods are matched by name, arity and receiver type, as the
+ * whole family of a method and its overrides (see `rootMethodTarget`); calls
+ * whose receiver type is unknown are returned with `certain: false`.
+ */
+export function collectOccurrences(
+    module: Module,
+    target: SymbolTarget,
+    options: CollectOptions = {},
+): SymbolOccurrence[] {
+    const occurrences: SymbolOccurrence[] = [];
+    const add = (token: Token, isDeclaration: boolean, isWrite: boolean, certain = true) => {
+        occurrences.push({ token, isDeclaration, isWrite, certain });
+    };
+
+    switch (target.kind) {
+        case 'class':
+            walkModule(module, {
+                classDeclaration: cls => {
+                    if (cls.name.text === target.name) add(cls.name, true, true);
+                },
+                declaration: binding => {
+                    if (binding.name === target.name && binding.kind === 'module') add(binding.token, true, true);
+                },
+                classReference: token => {
+                    if (token.text === target.name) add(token, false, false);
+                },
+            });
+            break;
+
+        case 'field': {
+            walkModule(module, {
+                field: (token, isStatic, isWrite, ctx) => {
+                    if (token.text === target.name
+                        && isStatic === target.isStatic
+                        && ctx.cls?.name.text === target.className) {
+                        add(token, false, isWrite);
+                    }
+                },
+            });
+            // Fields have no declaration in Wren: the first assignment, or the
+            // first use of a field that is never assigned, stands in for it
+            const declaration = occurrences.find(o => o.isWrite) ?? occurrences[0];
+            if (declaration) {
+                declaration.isDeclaration = true;
+            }
+            break;
+        }
+
+        case 'variable':
+            walkModule(module, {
+                declaration: binding => {
+                    if (binding.token.start === target.declaration.start && binding.name === target.name) {
+                        add(binding.token, true, true);
+                    }
+                },
+                variable: (token, binding, isWrite) => {
+                    if (binding.token.start === target.declaration.start && binding.name === target.name) {
+                        add(token, false, isWrite);
+                    }
+                },
+            });
+            break;
+
+        case 'method': {
+            const root = options.aggregate ? rootMethodTarget(target, options.aggregate) : target;
+            walkModule(module, {
+                methodDeclaration: (method, cls) => {
+                    if (!isNamedMethod(method)) return;
+                    const decl = methodTarget(method, cls.name.text);
+                    if (decl.kind === 'method'
+                        && decl.name === root.name
+                        && decl.arity === root.arity
+                        && decl.isStatic === root.isStatic
+                        && (root.className === null
+                            || decl.className === root.className
+                            // Overrides in subclasses
+                            || (!root.isStatic && (options.isSubtype?.(decl.className!, root.className) ?? false)))) {
+                        add(method.name, true, false, root.className !== null);
+                    }
+                },
+                call: site => {
+                    const match = matchCallSite(site, root, options);
+                    if (match !== null) {
+                        add(site.token, false, false, match);
+                    }
+                },
+            }, { aggregate: options.aggregate });
+            break;
+        }
+    }
+
+    return occurrences;
+}
@@ -0,0 +1,249 @@
+// =============================================================================
+// Running scripts: the `wren` task type and its terminal.
+//
+// A task runs the configured interpreter (`wren.interpreterPath`) on one file
+// in a pseudoterminal, so that stderr can be read back: when the process
+// exits, runtime and compile errors are published to their own diagnostic
+// collection, separate from the analyzer's.  `[./main line 12]` references in
+// the terminal are turned into links.
+// =============================================================================
+
+import { spawn } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findFrameReferences, locateFrames, parseWrenErrors, resolveFrameFile } from './runtimeErrors';
+import type { WrenRuntimeError } from './runtimeErrors';
+
+export const WREN_TASK_TYPE = 'wren';
+
+export interface WrenTaskDefinition extends vscode.TaskDefinition {
+    /** Script to run, absolute or relative to the workspace folder */
+    file: string;
+    /** Arguments passed to the script; defaults to `wren.scriptArgs` */
+    args?: string[];
+    /** Working directory; defaults to `wren.workingDirectory` */
+    cwd?: string;
+}
+
+/** Everything a run needs, with settings and defaults applied. */
+interface RunConfiguration {
+    interpreter: string;
+    file: string;
+    args: string[];
+    cwd: string;
+}
+
+export class WrenTaskProvider implements vscode.TaskProvider {
+    /** Directories that module names in recent stack traces are relative to */
+    private readonly traceRoots = new Set<string>();
+
+    constructor(private readonly runtimeCollection: vscode.DiagnosticCollection) {}
+
+    provideTasks(): vscode.Task[] {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document || document.languageId !== 'wren' || document.isUntitled) {
+            return [];
+        }
+        return [this.taskForFile(document.uri)];
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as WrenTaskDefinition;
+        if (!definition.file) {
+            return undefined;
+        }
+        const folder = typeof task.scope === 'object' ? task.scope : undefined;
+        return this.createTask(definition, folder);
+    }
+
+    /** A task that runs one file with the settings as they are. */
+    taskForFile(uri: vscode.Uri): vscode.Task {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const file = folder ? path.relative(folder.uri.fsPath, uri.fsPath) : uri.fsPath;
+        return this.createTask({ type: WREN_TASK_TYPE, file }, folder);
+    }
+
+    /** Module search roots for terminal links: recent working directories, then the workspace folders. */
+    getTraceRoots(): string[] {
+        const folders = vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath) ?? [];
+        return [...this.traceRoots, ...folders];
+    }
+
+    private createTask(definition: WrenTaskDefinition, folder: vscode.WorkspaceFolder | undefined): vscode.Task {
+        const task = new vscode.Task(
+            definition,
+            folder ?? vscode.TaskScope.Workspace,
+            `Run ${path.basename(definition.file)}`,
+            WREN_TASK_TYPE,
+            new vscode.CustomExecution(async resolved => {
+                const run = resolveRunConfiguration(resolved as WrenTaskDefinition, folder);
+                this.traceRoots.add(run.cwd);
+                return new WrenRunTerminal(run, this.runtimeCollection);
+            }),
+        );
+        task.presentationOptions = { clear: true, reveal: vscode.TaskRevealKind.Always };
+        return task;
+    }
+}
+
+function resolveRunConfiguration(definition: WrenTaskDefinition, folder: vscode.WorkspaceFolder | undefined): RunConfiguration {
+    const base = folder?.uri.fsPath;
+    const file = base ? path.resolve(base, definition.file) : path.resolve(definition.file);
+    const config = vscode.workspace.getConfiguration('wren', vscode.Uri.file(file));
+
+    const configuredCwd = definition.cwd ?? config.get<string>('workingDirectory', '');
+    let cwd = base ?? path.dirname(file);
+    if (configuredCwd) {
+        cwd = path.isAbsolute(configuredCwd) ? configuredCwd : path.resolve(base ?? path.dirname(file), configuredCwd);
+    }
+
+    return {
+        interpreter: config.get<string>('interpreterPath', 'wren_cli') || 'wren_cli',
+        file,
+        args: definition.args ?? config.get<string[]>('scriptArgs', []),
+        cwd,
+    };
+}
+
+/** Runs the interpreter, echoing its output, and reports its errors when it exits. */
+class WrenRunTerminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly closeEmitter = new vscode.EventEmitter<number>();
+    readonly onDidWrite = this.writeEmitter.event;
+    readonly onDidClose = this.closeEmitter.event;
+
+    private child: ChildProcess | null = null;
+    private finished = false;
+
+    constructor(
+        private readonly run: RunConfiguration,
+        private readonly runtimeCollection: vscode.DiagnosticCollection,
+    ) {}
+
+    open(): void {
+        const { interpreter, file, args, cwd } = this.run;
+        this.runtimeCollection.clear();
+
+        // A path relative to the working directory keeps module names in traces short
+        const relative = path.relative(cwd, file);
+        const script = relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : file;
+
+        let stderr = '';
+        const child = spawn(interpreter, [script, ...args], { cwd });
+        this.child = child;
+        child.stdout?.on('data', (data: Buffer) => this.write(data.toString()));
+        child.stderr?.on('data', (data: Buffer) => {
+            stderr += data.toString();
+            this.write(data.toString());
+        });
+        child.on('error', error => {
+            this.write(`Could not start '${interpreter}': ${error.message}\nSet "wren.interpreterPath" to the Wren interpreter.\n`);
+            this.finish(1);
+        });
+        child.on('close', async code => {
+            const errors = parseWrenErrors(stderr);
+            const roots = [cwd, path.dirname(file)];
+            for (const [fsPath, diagnostics] of await runtimeDiagnostics(errors, roots)) {
+                this.runtimeCollection.set(vscode.Uri.file(fsPath), diagnostics);
+            }
+            this.finish(code ?? 1);
+        });
+    }
+
+    handleInput(data: string): void {
+        if (data === '\x03') {
+            this.child?.kill();
+            return;
+        }
+        // Echo typed input and hand it to the script's stdin
+        const text = data.replace(/\r/g, '\n');
+        this.write(text);
+        this.child?.stdin?.write(text);
+    }
+
+    close(): void {
+        this.child?.kill();
+    }
+
+    private write(text: string): void {
+        this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    }
+
+    private finish(code: number): void {
+        if (this.finished) return;
+        this.finished = true;
+        this.closeEmitter.fire(code);
+    }
+}
+
+/**
+ * Diagnostics for interpreter errors, keyed by file.  Each error is reported
+ * at its innermost frame inside a known file; the rest of the stack trace is
+ * attached as related information so every frame is clickable.
+ */
+async function runtimeDiagnostics(errors: WrenRuntimeError[], roots: string[]): Promise<Map<string, vscode.Diagnostic[]>> {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const error of errors) {
+        const located = locateFrames(error, roots);
+        if (located.length === 0) continue;
+
+        const locations: vscode.Location[] = [];
+        for (const { frame, file } of located) {
+            locations.push(new vscode.Location(vscode.Uri.file(file), await lineRange(file, frame.line)));
+        }
+
+        const [primary, ...callers] = located;
+        const diagnostic = new vscode.Diagnostic(
+            locations[0].range,
+            error.isCompileError ? error.message : `${error.message} (in ${primary.frame.functionName})`,
+            vscode.DiagnosticSeverity.Error,
+        );
+        diagnostic.source = 'wren-runtime';
+        diagnostic.code = error.isCompileError ? 'compile-error' : 'runtime-error';
+        diagnostic.relatedInformation = callers.map(({ frame }, i) =>
+            new vscode.DiagnosticRelatedInformation(locations[i + 1], `called from ${frame.functionName}`));
+
+        byFile.set(primary.file, [...byFile.get(primary.file) ?? [], diagnostic]);
+    }
+
+    return byFile;
+}
+
+/** The text of a line, without its indentation. */
+async function lineRange(file: string, line: number): Promise<vscode.Range> {
+    try {
+        const document = await vscode.workspace.openTextDocument(file);
+        const textLine = document.lineAt(Math.min(line, document.lineCount - 1));
+        return new vscode.Range(textLine.lineNumber, textLine.firstNonWhitespaceCharacterIndex, textLine.lineNumber, textLine.text.length);
+    } catch {
+        return new vscode.Range(line, 0, line, 0);
+    }
+}
+
+interface FrameLink extends vscode.TerminalLink {
+    file: string;
+    line: number;
+}
+
+/** Links `[./main line 12]` in terminal output to the line it names. */
+export class WrenTerminalLinkProvider implements vscode.TerminalLinkProvider<FrameLink> {
+    constructor(private readonly tasks: WrenTaskProvider) {}
+
+    provideTerminalLinks(context: vscode.TerminalLinkContext): FrameLink[] {
+        const links: FrameLink[] = [];
+        for (const ref of findFrameReferences(context.line)) {
+            const file = resolveFrameFile(ref.module, this.tasks.getTraceRoots());
+            if (file) {
+                links.push({ startIndex: ref.start, length: ref.length, tooltip: 'Open the source line', file, line: ref.line });
+            }
+        }
+        return links;
+    }
+
+    async handleTerminalLink(link: FrameLink): Promise<void> {
+        const position = new vscode.Position(link.line, 0);
+        await vscode.window.showTextDocument(vscode.Uri.file(link.file), { selection: new vscode.Range(position, position) });
+    }
+}
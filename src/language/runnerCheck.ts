@@ -0,0 +1,101 @@
+// =============================================================================
+// Check of the `wren` task's error reporting, against a stub interpreter.
+//
+//     node out/src/language/runnerCheck.js
+//
+// Runs test/runner/wren_cli.js on the scripts in test/runner the way the task
+// does (from the script's folder, with the path relative to it) and checks
+// what parseWrenErrors, locateFrames and findFrameReferences make of its
+// stderr.  To see the resulting problems in the editor, open test/runner in
+// the Extension Development Host and run its tasks: its settings point
+// `wren.interpreterPath` at the stub.
+// =============================================================================
+
+import * as assert from 'assert';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findFrameReferences, locateFrames, parseWrenErrors } from './runtimeErrors';
+
+const FIXTURES = path.resolve(__dirname, '../../../test/runner');
+const STUB = path.join(FIXTURES, 'wren_cli.js');
+
+interface Run {
+    status: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+function run(script: string): Run {
+    const result = spawnSync(STUB, [script], { cwd: FIXTURES, encoding: 'utf8' });
+    if (result.error) throw result.error;
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+/** Zero-based line of a fixture, trimmed. */
+function fixtureLine(file: string, line: number): string {
+    return fs.readFileSync(file, 'utf8').split(/\r?\n/)[line].trim();
+}
+
+const checks: [string, () => void][] = [
+    ['a runtime error is located at each frame of its stack trace', () => {
+        const { status, stdout, stderr } = run('main.wren');
+        assert.strictEqual(status, 70);
+        assert.strictEqual(stdout, 'Starting\n');
+
+        const errors = parseWrenErrors(stderr);
+        assert.deepStrictEqual(errors, [{
+            message: 'Index out of bounds.',
+            frames: [
+                { module: './lib/shapes', line: 8, functionName: 'Shapes.at(_)' },
+                { module: './main', line: 6, functionName: '(script)' },
+            ],
+            isCompileError: false,
+        }]);
+
+        const located = locateFrames(errors[0], [FIXTURES]);
+        assert.deepStrictEqual(located.map(({ file }) => file), [
+            path.join(FIXTURES, 'lib', 'shapes.wren'),
+            path.join(FIXTURES, 'main.wren'),
+        ]);
+        assert.strictEqual(fixtureLine(located[0].file, located[0].frame.line), 'return _names[index]');
+        assert.strictEqual(fixtureLine(located[1].file, located[1].frame.line), 'System.print(shapes.at(3))');
+    }],
+    ['a compile error is located at its line', () => {
+        const { status, stderr } = run('compile_error.wren');
+        assert.strictEqual(status, 65);
+
+        const errors = parseWrenErrors(stderr);
+        assert.deepStrictEqual(errors, [{
+            message: `Error at '}': Expected expression.`,
+            frames: [{ module: './compile_error', line: 4, functionName: '(script)' }],
+            isCompileError: true,
+        }]);
+        assert.deepStrictEqual(locateFrames(errors[0], [FIXTURES]).map(({ file }) => file), [
+            path.join(FIXTURES, 'compile_error.wren'),
+        ]);
+    }],
+    ['frames in modules that cannot be found are left out', () => {
+        const [error] = parseWrenErrors('Oops.\n[./missing line 3] in (script)\n');
+        assert.deepStrictEqual(locateFrames(error, [FIXTURES]), []);
+    }],
+    ['frame references in terminal output become links', () => {
+        const { stderr } = run('main.wren');
+        const frameLine = stderr.split('\n')[1];
+        assert.deepStrictEqual(findFrameReferences(frameLine), [
+            { start: 0, length: '[./lib/shapes line 9]'.length, module: './lib/shapes', line: 8 },
+        ]);
+    }],
+];
+
+let failed = 0;
+for (const [name, check] of checks) {
+    try {
+        check();
+        console.log(`ok - ${name}`);
+    } catch (error) {
+        failed++;
+        console.log(`not ok - ${name}\n${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+process.exitCode = failed > 0 ? 1 : 0;
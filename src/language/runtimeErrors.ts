@@ -0,0 +1,112 @@
+// =============================================================================
+// Interpreter output: runtime errors, compile errors and stack traces.
+//
+// `wren_cli` reports a runtime error as the message followed by one line per
+// stack frame, innermost first:
+//
+//     Index out of bounds.
+//     [./main line 12] in Foo.bar(_)
+//     [./main line 20] in (script)
+//
+// and a compile error as a single `[./main line 3] Error at 'x': ...` line.
+// Module names are paths relative to the interpreter's working directory,
+// without the `.wren` extension.
+// =============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface StackFrame {
+    /** Module name as printed, e.g. `./main` */
+    module: string;
+    /** Zero-based line */
+    line: number;
+    /** Function the frame is in, e.g. `Foo.bar(_)` or `(script)` */
+    functionName: string;
+}
+
+export interface WrenRuntimeError {
+    message: string;
+    /** Innermost first; a compile error has a single frame */
+    frames: StackFrame[];
+    isCompileError: boolean;
+}
+
+const FRAME = /^\[(.+) line (\d+)\] in (.+)$/;
+const COMPILE_ERROR = /^\[(.+) line (\d+)\] (Error.*)$/;
+
+/** Parse the errors out of the interpreter's stderr. */
+export function parseWrenErrors(output: string): WrenRuntimeError[] {
+    const errors: WrenRuntimeError[] = [];
+    let current: WrenRuntimeError | null = null;
+
+    for (const raw of output.split(/\r?\n/)) {
+        const line = raw.trim();
+        if (!line) continue;
+
+        const compile = COMPILE_ERROR.exec(line);
+        if (compile) {
+            errors.push({
+                message: compile[3],
+                frames: [{ module: compile[1], line: Number(compile[2]) - 1, functionName: '(script)' }],
+                isCompileError: true,
+            });
+            current = null;
+            continue;
+        }
+
+        const frame = FRAME.exec(line);
+        if (frame) {
+            if (!current) {
+                // A trace without a message line before it
+                current = { message: 'Runtime error', frames: [], isCompileError: false };
+                errors.push(current);
+            }
+            current.frames.push({ module: frame[1], line: Number(frame[2]) - 1, functionName: frame[3] });
+            continue;
+        }
+
+        // Any other line starts the next runtime error
+        current = { message: line, frames: [], isCompileError: false };
+        errors.push(current);
+    }
+
+    return errors.filter(error => error.frames.length > 0);
+}
+
+/** Match `[module line N]` in a line of terminal output, for links. */
+export function findFrameReferences(line: string): { start: number; length: number; module: string; line: number }[] {
+    const results: { start: number; length: number; module: string; line: number }[] = [];
+    const pattern = /\[([^\[\]]+) line (\d+)\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line)) !== null) {
+        results.push({ start: match.index, length: match[0].length, module: match[1], line: Number(match[2]) - 1 });
+    }
+    return results;
+}
+
+/** The file a module name in a trace refers to, looked up in each root directory in turn. */
+export function resolveFrameFile(module: string, roots: string[]): string | null {
+    const candidates = module.endsWith('.wren') ? [module] : [`${module}.wren`, module];
+    for (const candidate of candidates) {
+        if (path.isAbsolute(candidate)) {
+            if (fs.existsSync(candidate)) return candidate;
+            continue;
+        }
+        for (const root of roots) {
+            const resolved = path.resolve(root, candidate);
+            if (fs.existsSync(resolved) && fs.statSync(resolved).isFile()) return resolved;
+        }
+    }
+    return null;
+}
+
+/** The frames of an error whose module resolves to a file, innermost first. */
+export function locateFrames(error: WrenRuntimeError, roots: string[]): { frame: StackFrame; file: string }[] {
+    const located: { frame: StackFrame; file: string }[] = [];
+    for (const frame of error.frames) {
+        const file = resolveFrameFile(frame.module, roots);
+        if (file) located.push({ frame, file });
+    }
+    return located;
+}
@@ -0,0 +1,626 @@
+// =============================================================================
+// Scope-aware AST walker.
+//
+// Walks a module in source order while tracking lexical scopes, so every
+// identifier can be tied back to the declaration it refers to.  Consumers
+// (references, rename, highlights, ...) receive callbacks for declarations,
+// variable uses, class references, field accesses and method call sites.
+//
+// Name resolution follows the Wren compiler: locals and parameters first; a
+// lowercase name that is not a local inside a method is an implicit call on
+// `this`; anything else is a module-level variable.
+// =============================================================================
+
+import type {
+    Module,
+    Stmt,
+    Expr,
+    ClassStmt,
+    Method,
+    Body,
+    Token,
+    Parameter,
+    CallExpr,
+} from '../../wren-analyzer/src/index';
+import { inferExprType, stripQuotes } from './astIndex';
+import { inferType } from './typeInference';
+import type { AggregatedWorkspaceIndex } from './types';
+
+export type BindingKind = 'module' | 'import' | 'local' | 'parameter' | 'block-parameter' | 'for';
+
+export interface ScopeBinding {
+    name: string;
+    token: Token;
+    kind: BindingKind;
+    /** Annotated or inferred type name, if known */
+    type: string | null;
+    /** True when the type comes from a `: Type` annotation */
+    annotated?: boolean;
+    /** Module name for bindings introduced by `import "mod" for name` */
+    importModule?: string;
+}
+
+export interface WalkContext {
+    /** Enclosing class, or null at module level */
+    cls: ClassStmt | null;
+    /** Enclosing method, or null outside methods */
+    method: Method | null;
+}
+
+export interface ReceiverInfo {
+    /**
+     * - `implicit`: bare call inside a method (`foo(1)`), dispatched on `this`
+     * - `this` / `super`: explicit `this.foo` / `super.foo`
+     * - `class`: static call on a class name (`Foo.bar`)
+     * - `instance`: any other receiver expression
+     */
+    kind: 'implicit' | 'this' | 'super' | 'class' | 'instance';
+    /** Resolved class name of the receiver, or null when unknown */
+    type: string | null;
+    /** True when the call dispatches to static methods (class receiver, or implicit call in a static method) */
+    isStatic: boolean;
+}
+
+export interface CallSite {
+    /** The method name token at the call site */
+    token: Token;
+    /** Method name as stored in WrenMethodSymbol (setters end with `=`) */
+    methodName: string;
+    /** Argument count, or null for getters and setters */
+    arity: number | null;
+    receiver: ReceiverInfo;
+    node: Expr;
+}
+
+/** Callbacks invoked by `walkModule`, in source order. All are optional. */
+export interface ScopeVisitor {
+    classDeclaration?(cls: ClassStmt): void;
+    methodDeclaration?(method: Method, cls: ClassStmt): void;
+    declaration?(binding: ScopeBinding, ctx: WalkContext): void;
+    variable?(token: Token, binding: ScopeBinding, isWrite: boolean, ctx: WalkContext): void;
+    classReference?(token: Token, ctx: WalkContext): void;
+    /** `value` is the assigned expression, for writes */
+    field?(token: Token, isStatic: boolean, isWrite: boolean, ctx: WalkContext, value?: Expr): void;
+    call?(site: CallSite, ctx: WalkContext): void;
+}
+
+export interface WalkOptions {
+    /** Only walk classes that overlap this offset range (module-level code is always walked) */
+    range?: { start: number; end: number };
+    /**
+     * Workspace classes, for typing receivers through method return types,
+     * getters, operators and subscripts (as hover does).  Without it only
+     * literals, `Foo.new()` and typed variables have known types.
+     */
+    aggregate?: AggregatedWorkspaceIndex;
+}
+
+/** Walk a module, reporting every declaration and use to the visitor. */
+export function walkModule(module: Module, visitor: ScopeVisitor, options: WalkOptions = {}): void {
+    new ScopeWalker(visitor, options).walkModule(module);
+}
+
+export interface VisibleScopes {
+    /** Bindings visible at the offset, one array per scope, innermost first (module scope last) */
+    scopes: ScopeBinding[][];
+    ctx: WalkContext;
+}
+
+/**
+ * Collect the bindings in scope at an offset.  The scope chain is the one in
+ * effect at the last identifier before the offset; locals declared after the
+ * offset are left out, and so are lowercase module variables inside methods.
+ */
+export function visibleBindingsAt(module: Module, offset: number): VisibleScopes {
+    let snapshot: { scopes: Map<string, ScopeBinding>[]; ctx: WalkContext } = {
+        scopes: [],
+        ctx: { cls: null, method: null },
+    };
+    const seen = (token: Token) => {
+        if (token.start <= offset) snapshot = walker.snapshot();
+    };
+    const walker: ScopeWalker = new ScopeWalker({
+        classDeclaration: cls => seen(cls.name),
+        methodDeclaration: method => seen(method.name),
+        declaration: binding => seen(binding.token),
+        variable: token => seen(token),
+        classReference: token => seen(token),
+        field: token => seen(token),
+        call: site => seen(site.token),
+    }, {});
+    walker.walkModule(module);
+
+    const isVisible = (binding: ScopeBinding) => {
+        if (tokenContains(binding.token, offset)) {
+            return false;
+        }
+        if (binding.kind === 'import' || binding.kind === 'module') {
+            // Inside a method a lowercase bare name is an implicit call on `this`,
+            // so only capitalized module variables can be reached from there
+            if (snapshot.ctx.method && !isClassName(binding.name)) {
+                return false;
+            }
+            // Methods run after the module has loaded, so they see every module variable
+            if (binding.kind === 'import' || snapshot.ctx.method) {
+                return true;
+            }
+        }
+        return binding.token.start < offset;
+    };
+    const scopes = snapshot.scopes
+        .map(scope => [...scope.values()].filter(isVisible))
+        .reverse();
+    return { scopes, ctx: snapshot.ctx };
+}
+
+/**
+ * Types of a class's fields, inferred from the values assigned to them
+ * (`_pos = Vec2.new(0, 0)`).  Fields only ever assigned `null` or values of
+ * unknown type are left out.
+ */
+export function inferFieldTypes(module: Module, className: string): Map<string, string> {
+    const types = new Map<string, string>();
+    walkModule(module, {
+        field: (token, _isStatic, isWrite, ctx, value) => {
+            if (!isWrite || !value || ctx.cls?.name.text !== className || types.has(token.text)) return;
+            const type = inferExprType(value);
+            if (type && type !== 'Null') {
+                types.set(token.text, type);
+            }
+        },
+    });
+    return types;
+}
+
+/** Argument count of a method declaration, or null for getters and setters. */
+export function methodArity(method: Method): number | null {
+    if (method.isSetter || !method.parameters) {
+        return null;
+    }
+    return method.parameters.length;
+}
+
+/** True when the offset falls on the token (inclusive of its end, like a cursor after the last char). */
+export function tokenContains(token: Token, offset: number): boolean {
+    return offset >= token.start && offset <= token.start + token.length;
+}
+
+function isClassName(name: string): boolean {
+    return /^[A-Z]/.test(name);
+}
+
+/** A bare identifier is a CallExpr with no receiver, arguments, or block. */
+function isBareName(expr: Expr): expr is CallExpr {
+    return expr.kind === 'CallExpr'
+        && expr.receiver === null
+        && expr.arguments === null
+        && !expr.blockArgument;
+}
+
+function isBody(value: object): boolean {
+    return 'statements' in value && 'expression' in value && 'parameters' in value;
+}
+
+function isNode(value: object): boolean {
+    return 'kind' in value && typeof (value as { kind: unknown }).kind === 'string';
+}
+
+function isToken(value: object): boolean {
+    return 'text' in value && 'start' in value && 'length' in value;
+}
+
+class ScopeWalker {
+    private readonly scopes: Map<string, ScopeBinding>[] = [];
+    private ctx: WalkContext = { cls: null, method: null };
+
+    constructor(
+        private readonly visitor: ScopeVisitor,
+        private readonly options: WalkOptions,
+    ) {}
+
+    walkModule(module: Module): void {
+        const moduleScope = new Map<string, ScopeBinding>();
+        this.scopes.push(moduleScope);
+
+        // Module variables are visible to code that runs after the whole module
+        // is loaded (methods, closures), so hoist them before walking.
+        for (const stmt of module.statements) {
+            if (stmt.kind === 'VarStmt') {
+                moduleScope.set(stmt.name.text, this.makeBinding(stmt.name, 'module', null));
+            } else if (stmt.kind === 'ImportStmt' && stmt.variables) {
+                const moduleName = stripQuotes(stmt.path.text);
+                for (const v of stmt.variables) {
+                    moduleScope.set(v.text, { ...this.makeBinding(v, 'import', null), importModule: moduleName });
+                }
+            }
+        }
+
+        for (const stmt of module.statements) {
+            this.walkStmt(stmt);
+        }
+        this.scopes.pop();
+    }
+
+    /** The current scope chain and context (the maps keep filling as the walk goes on). */
+    snapshot(): { scopes: Map<string, ScopeBinding>[]; ctx: WalkContext } {
+        return { scopes: [...this.scopes], ctx: { ...this.ctx } };
+    }
+
+    private makeBinding(token: Token, kind: BindingKind, type: string | null): ScopeBinding {
+        return { name: token.text, token, kind, type };
+    }
+
+    private declare(token: Token, kind: BindingKind, type: string | null, annotated = false): ScopeBinding {
+        const scope = this.scopes[this.scopes.length - 1];
+        const existing = kind === 'module' || kind === 'import' ? scope.get(token.text) : undefined;
+        const binding = existing ?? this.makeBinding(token, kind, type);
+        binding.type = type ?? binding.type;
+        binding.annotated = annotated;
+        scope.set(token.text, binding);
+        this.visitor.declaration?.(binding, this.ctx);
+        return binding;
+    }
+
+    private declareParameters(params: Parameter[] | null | undefined, kind: BindingKind): void {
+        for (const param of params ?? []) {
+            if (param.typeAnnotation) {
+                this.visitor.classReference?.(param.typeAnnotation.name, this.ctx);
+            }
+            this.declare(param.name, kind, param.typeAnnotation?.name.text ?? null, !!param.typeAnnotation);
+        }
+    }
+
+    /** Resolve a name, honouring Wren's implicit-this rule inside methods. */
+    private lookup(name: string): ScopeBinding | 'implicit-this' | null {
+        for (let i = this.scopes.length - 1; i >= 1; i--) {
+            const binding = this.scopes[i].get(name);
+            if (binding) return binding;
+        }
+        if (this.ctx.method && !isClassName(name)) {
+            return 'implicit-this';
+        }
+        return this.scopes[0].get(name) ?? null;
+    }
+
+    private withScope(fn: () => void): void {
+        this.scopes.push(new Map());
+        try {
+            fn();
+        } finally {
+            this.scopes.pop();
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Statements
+    // -------------------------------------------------------------------------
+
+    private walkStmt(stmt: Stmt): void {
+        switch (stmt.kind) {
+            case 'ClassStmt':
+                this.walkClass(stmt as ClassStmt);
+                return;
+
+            case 'ImportStmt':
+                for (const v of stmt.variables ?? []) {
+                    if (isClassName(v.text)) {
+                        this.visitor.classReference?.(v, this.ctx);
+                    } else {
+                        const binding = this.scopes[0].get(v.text);
+                        if (binding) this.visitor.declaration?.(binding, this.ctx);
+                    }
+                }
+                return;
+
+            case 'VarStmt': {
+                if (stmt.typeAnnotation) {
+                    this.visitor.classReference?.(stmt.typeAnnotation.name, this.ctx);
+                }
+                if (stmt.initializer) {
+                    this.walkExpr(stmt.initializer);
+                }
+                const type = stmt.typeAnnotation?.name.text
+                    ?? (stmt.initializer ? this.typeOf(stmt.initializer) : null);
+                const kind: BindingKind = this.scopes.length === 1 ? 'module' : 'local';
+                this.declare(stmt.name, kind, type, !!stmt.typeAnnotation);
+                return;
+            }
+
+            case 'ForStmt':
+                this.walkExpr(stmt.iterator);
+                this.withScope(() => {
+                    if (stmt.typeAnnotation) {
+                        this.visitor.classReference?.(stmt.typeAnnotation.name, this.ctx);
+                    }
+                    const type = stmt.typeAnnotation?.name.text ?? elementType(this.typeOf(stmt.iterator));
+                    this.declare(stmt.variable, 'for', type, !!stmt.typeAnnotation);
+                    this.walkStmt(stmt.body);
+                });
+                return;
+
+            case 'BlockStmt':
+                this.withScope(() => stmt.statements.forEach((s: Stmt) => this.walkStmt(s)));
+                return;
+
+            default:
+                // Expression statements are plain expression nodes
+                if (isStatementKind(stmt.kind)) {
+                    this.walkChildren(stmt);
+                } else {
+                    this.walkExpr(stmt as Expr);
+                }
+                return;
+        }
+    }
+
+    private walkClass(cls: ClassStmt): void {
+        const range = this.options.range;
+        if (range) {
+            const start = cls.foreignKeyword?.start ?? cls.classKeyword.start;
+            const end = cls.rightBrace.start + cls.rightBrace.length;
+            if (end < range.start || start > range.end) return;
+        }
+
+        this.visitor.classDeclaration?.(cls);
+        if (cls.superclass) {
+            this.visitor.classReference?.(cls.superclass, this.ctx);
+        }
+
+        const outer = this.ctx;
+        for (const method of cls.methods) {
+            this.ctx = { cls, method };
+            this.visitor.methodDeclaration?.(method, cls);
+            if (method.returnType) {
+                this.visitor.classReference?.(method.returnType.name, this.ctx);
+            }
+            this.withScope(() => {
+                this.declareParameters(method.subscriptParameters, 'parameter');
+                this.declareParameters(method.parameters, 'parameter');
+                if (method.body) {
+                    this.walkBodyContents(method.body);
+                }
+            });
+        }
+        this.ctx = outer;
+    }
+
+    private walkBody(body: Body): void {
+        this.withScope(() => {
+            this.declareParameters(body.parameters, 'block-parameter');
+            this.walkBodyContents(body);
+        });
+    }
+
+    private walkBodyContents(body: Body): void {
+        for (const stmt of body.statements ?? []) {
+            this.walkStmt(stmt);
+        }
+        if (body.expression) {
+            this.walkExpr(body.expression);
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Expressions
+    // -------------------------------------------------------------------------
+
+    private walkExpr(expr: Expr): void {
+        switch (expr.kind) {
+            case 'CallExpr':
+                this.walkCall(expr, false);
+                return;
+
+            case 'AssignmentExpr':
+                this.walkExpr(expr.value);
+                this.walkAssignmentTarget(expr.target, expr.value);
+                return;
+
+            case 'FieldExpr':
+                this.visitor.field?.(expr.name, false, false, this.ctx);
+                return;
+
+            case 'StaticFieldExpr':
+                this.visitor.field?.(expr.name, true, false, this.ctx);
+                return;
+
+            case 'SuperExpr':
+                this.walkArguments(expr.arguments, expr.blockArgument);
+                if (expr.name && this.ctx.cls) {
+                    this.visitor.call?.({
+                        token: expr.name,
+                        methodName: expr.name.text,
+                        arity: callArity(expr.arguments, expr.blockArgument),
+                        receiver: {
+                            kind: 'super',
+                            type: this.ctx.cls.superclass?.text ?? 'Object',
+                            isStatic: this.ctx.method?.staticKeyword != null,
+                        },
+                        node: expr,
+                    }, this.ctx);
+                }
+                return;
+
+            default:
+                this.walkChildren(expr);
+                return;
+        }
+    }
+
+    private walkAssignmentTarget(target: Expr, value: Expr): void {
+        switch (target.kind) {
+            case 'FieldExpr':
+                this.visitor.field?.(target.name, false, true, this.ctx, value);
+                return;
+            case 'StaticFieldExpr':
+                this.visitor.field?.(target.name, true, true, this.ctx, value);
+                return;
+            case 'CallExpr':
+                this.walkCall(target, true);
+                return;
+            default:
+                this.walkExpr(target);
+                return;
+        }
+    }
+
+    private walkCall(call: CallExpr, isWrite: boolean): void {
+        if (isBareName(call)) {
+            const resolved = this.lookup(call.name.text);
+            if (resolved && resolved !== 'implicit-this') {
+                if (isClassName(call.name.text) && (resolved.kind === 'module' || resolved.kind === 'import')) {
+                    this.visitor.classReference?.(call.name, this.ctx);
+                } else {
+                    this.visitor.variable?.(call.name, resolved, isWrite, this.ctx);
+                }
+                return;
+            }
+            if (resolved === null && isClassName(call.name.text)) {
+                this.visitor.classReference?.(call.name, this.ctx);
+                return;
+            }
+        }
+
+        if (call.receiver) {
+            this.walkExpr(call.receiver);
+        }
+        this.walkArguments(call.arguments, call.blockArgument);
+
+        this.visitor.call?.({
+            token: call.name,
+            methodName: isWrite ? `${call.name.text}=` : call.name.text,
+            arity: isWrite ? null : callArity(call.arguments, call.blockArgument),
+            receiver: this.receiverOf(call),
+            node: call,
+        }, this.ctx);
+    }
+
+    private walkArguments(args: Expr[] | null, blockArgument: Body | null | undefined): void {
+        for (const arg of args ?? []) {
+            this.walkExpr(arg);
+        }
+        if (blockArgument) {
+            this.walkBody(blockArgument);
+        }
+    }
+
+    private receiverOf(call: CallExpr): ReceiverInfo {
+        const receiver = call.receiver;
+        if (!receiver) {
+            return {
+                kind: 'implicit',
+                type: this.ctx.cls?.name.text ?? null,
+                isStatic: this.ctx.method?.staticKeyword != null,
+            };
+        }
+        if (receiver.kind === 'ThisExpr') {
+            return {
+                kind: 'this',
+                type: this.ctx.cls?.name.text ?? null,
+                isStatic: this.ctx.method?.staticKeyword != null,
+            };
+        }
+        if (isBareName(receiver) && isClassName(receiver.name.text)) {
+            const resolved = this.lookup(receiver.name.text);
+            if (resolved === null || (resolved !== 'implicit-this' && (resolved.kind === 'module' || resolved.kind === 'import'))) {
+                return { kind: 'class', type: receiver.name.text, isStatic: true };
+            }
+        }
+        return { kind: 'instance', type: this.typeOf(receiver), isStatic: false };
+    }
+
+    /** Type of an expression, using scope bindings for plain identifiers. */
+    private typeOf(expr: Expr): string | null {
+        if (isBareName(expr)) {
+            const resolved = this.lookup(expr.name.text);
+            if (resolved && resolved !== 'implicit-this') {
+                return resolved.type;
+            }
+            return null;
+        }
+        if (expr.kind === 'ThisExpr') {
+            return this.ctx.cls?.name.text ?? null;
+        }
+        if (this.options.aggregate) {
+            const inferred = inferType(expr, {
+                aggregate: this.options.aggregate,
+                locals: this.typedLocals(),
+                enclosingClass: this.ctx.cls?.name.text ?? null,
+            });
+            return inferred && !inferred.isClass ? inferred.className : null;
+        }
+        return inferExprType(expr);
+    }
+
+    /** Types of the variables in scope, inner scopes shadowing outer ones. */
+    private typedLocals(): Map<string, string> {
+        const locals = new Map<string, string>();
+        for (const scope of this.scopes) {
+            for (const [name, binding] of scope) {
+                if (binding.type) {
+                    locals.set(name, binding.type);
+                } else {
+                    locals.delete(name);
+                }
+            }
+        }
+        return locals;
+    }
+
+    /**
+     * Fallback for node kinds without scoping rules of their own: visit every
+     * child node, block body and nested object (e.g. map entries) in order.
+     */
+    private walkChildren(node: Expr | Stmt): void {
+        for (const value of Object.values(node)) {
+            if (Array.isArray(value)) {
+                value.forEach(item => this.walkChild(item));
+            } else {
+                this.walkChild(value);
+            }
+        }
+    }
+
+    private walkChild(value: unknown): void {
+        if (!value || typeof value !== 'object') return;
+        if (isBody(value)) {
+            this.walkBody(value as Body);
+        } else if (isNode(value)) {
+            if (isStatementKind((value as Expr | Stmt).kind)) {
+                this.walkStmt(value as Stmt);
+            } else {
+                this.walkExpr(value as Expr);
+            }
+        } else if (!isToken(value)) {
+            for (const nested of Object.values(value)) {
+                if (Array.isArray(nested)) {
+                    nested.forEach(item => this.walkChild(item));
+                } else {
+                    this.walkChild(nested);
+                }
+            }
+        }
+    }
+}
+
+/** Type of the values a `for` loop gets from iterating a sequence of this type. */
+function elementType(sequenceType: string | null): string | null {
+    switch (sequenceType) {
+        case 'Range':
+            return 'Num';
+        case 'String':
+            return 'String';
+        default:
+            return null;
+    }
+}
+
+function isStatementKind(kind: string): boolean {
+    return kind.endsWith('Stmt');
+}
+
+function callArity(args: Expr[] | null, blockArgument: Body | null | undefined): number | null {
+    if (args === null && !blockArgument) {
+        return null;
+    }
+    return (args?.length ?? 0) + (blockArgument ? 1 : 0);
+}
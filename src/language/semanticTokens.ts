@@ -0,0 +1,100 @@
+// =============================================================================
+// Semantic token classification.
+//
+// Colors identifiers by what they resolve to in the AST rather than by how
+// they look: fields vs. static fields, parameters vs. locals vs. module
+// variables, static vs. instance methods, and built-in classes.
+// =============================================================================
+
+import * as vscode from 'vscode';
+import type { Module, Token } from '../../wren-analyzer/src/index';
+import { walkModule } from './scopes';
+import type { ScopeBinding } from './scopes';
+
+const TOKEN_TYPES = ['class', 'method', 'property', 'parameter', 'variable'] as const;
+const TOKEN_MODIFIERS = ['declaration', 'static', 'defaultLibrary', 'foreign', 'constructor', 'global'] as const;
+
+type TokenTypeName = typeof TOKEN_TYPES[number];
+type TokenModifierName = typeof TOKEN_MODIFIERS[number];
+
+export const SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend([...TOKEN_TYPES], [...TOKEN_MODIFIERS]);
+
+/** Lookups into the workspace aggregate that the AST alone cannot answer. */
+export interface SemanticTokenLookup {
+    isBuiltinClass(name: string): boolean;
+    isConstructor(className: string, methodName: string): boolean;
+}
+
+/**
+ * Build semantic tokens for a module.  When `range` is given, classes outside
+ * it are skipped and only tokens inside it are emitted.
+ */
+export function buildSemanticTokens(
+    document: vscode.TextDocument,
+    module: Module,
+    lookup: SemanticTokenLookup,
+    range?: vscode.Range,
+): vscode.SemanticTokens {
+    const builder = new vscode.SemanticTokensBuilder(SEMANTIC_TOKENS_LEGEND);
+    const offsets = range
+        ? { start: document.offsetAt(range.start), end: document.offsetAt(range.end) }
+        : undefined;
+
+    const emit = (token: Token, type: TokenTypeName, modifiers: TokenModifierName[] = []) => {
+        if (offsets && (token.start + token.length < offsets.start || token.start > offsets.end)) return;
+        const tokenRange = new vscode.Range(
+            document.positionAt(token.start),
+            document.positionAt(token.start + token.length),
+        );
+        builder.push(tokenRange, type, modifiers);
+    };
+
+    const bindingToken = (token: Token, binding: ScopeBinding, isDeclaration: boolean) => {
+        const modifiers: TokenModifierName[] = isDeclaration ? ['declaration'] : [];
+        switch (binding.kind) {
+            case 'parameter':
+            case 'block-parameter':
+                emit(token, 'parameter', modifiers);
+                break;
+            case 'module':
+            case 'import':
+                emit(token, 'variable', [...modifiers, 'global']);
+                break;
+            default:
+                emit(token, 'variable', modifiers);
+                break;
+        }
+    };
+
+    walkModule(module, {
+        classDeclaration: cls => {
+            emit(cls.name, 'class', cls.foreignKeyword ? ['declaration', 'foreign'] : ['declaration']);
+        },
+        classReference: token => {
+            emit(token, 'class', lookup.isBuiltinClass(token.text) ? ['defaultLibrary'] : []);
+        },
+        methodDeclaration: method => {
+            if (!/^[A-Za-z_]/.test(method.name.text)) return;
+            const modifiers: TokenModifierName[] = ['declaration'];
+            if (method.staticKeyword) modifiers.push('static');
+            if (method.constructKeyword) modifiers.push('constructor');
+            if (method.foreignKeyword) modifiers.push('foreign');
+            emit(method.name, 'method', modifiers);
+        },
+        declaration: binding => bindingToken(binding.token, binding, true),
+        variable: (token, binding) => bindingToken(token, binding, false),
+        field: (token, isStatic) => emit(token, 'property', isStatic ? ['static'] : []),
+        call: site => {
+            const modifiers: TokenModifierName[] = [];
+            const type = site.receiver.type;
+            if (site.receiver.isStatic) modifiers.push('static');
+            if (type && lookup.isBuiltinClass(type)) modifiers.push('defaultLibrary');
+            if (type && site.receiver.kind === 'class' && lookup.isConstructor(type, site.methodName)) {
+                modifiers.push('constructor');
+            }
+            emit(site.token, 'method', modifiers);
+        },
+    }, { range: offsets });
+
+    return builder.build();
+}
@@ -0,0 +1,257 @@
+// =============================================================================
+// Type inference for receiver expressions.
+//
+// Completion and hover need the type of whatever sits before a `.`, which may
+// be a chain such as `player.position`, `Vec2.new(1, 2).normalized`,
+// `grid[0, 1]` or `(a + b)`.  The receiver text is cut out of the line,
+// parsed on its own with the analyzer's parser, and evaluated against the
+// workspace aggregate: method return annotations (`-> Type`), constructors,
+// getters, operators and subscripts all contribute.
+// =============================================================================
+
+import { Lexer, Parser, SourceFile } from '../../wren-analyzer/src/index';
+import type { Body, CallExpr, Expr } from '../../wren-analyzer/src/index';
+import { inferExprType } from './astIndex';
+import { AggregatedWorkspaceIndex, WrenMethodSymbol } from './types';
+
+/** The type of an expression: an instance of a class, or the class object itself. */
+export interface InferredType {
+    className: string;
+    /** True for a class reference (`Vec2`), whose members are the static methods */
+    isClass: boolean;
+}
+
+export interface TypeEnvironment {
+    aggregate: AggregatedWorkspaceIndex;
+    /** Variable name → type name for the names visible at the cursor */
+    locals: Map<string, string>;
+    /** Variable name → initializer, for variables whose type must be inferred */
+    initializers?: Map<string, Expr>;
+    enclosingClass: string | null;
+}
+
+/** Results of built-in operators on core classes that the stubs leave unannotated. */
+const OPERATOR_RESULTS: Record<string, Record<string, string>> = {
+    Num: {
+        '+': 'Num', '-': 'Num', '*': 'Num', '/': 'Num', '%': 'Num',
+        '&': 'Num', '|': 'Num', '^': 'Num', '<<': 'Num', '>>': 'Num', '~': 'Num',
+        '<': 'Bool', '>': 'Bool', '<=': 'Bool', '>=': 'Bool', '..': 'Range', '...': 'Range',
+    },
+    String: { '+': 'String', '*': 'String' },
+    List: { '+': 'List', '*': 'List' },
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Cut the receiver expression out of the text before a member-access dot,
+ * e.g. `Vec2.new(1, 2).normalized` from `var n = Vec2.new(1, 2).normalized`.
+ * Returns null when there is no receiver (e.g. the dot starts a line).
+ */
+export function extractReceiverText(textBeforeDot: string): string | null {
+    const isWordChar = (ch: string | undefined) => ch !== undefined && /[A-Za-z0-9_]/.test(ch);
+    let i = textBeforeDot.length;
+    let consumed = false;
+    // Walk back one unit at a time: a word, a string, or a bracketed group
+    while (i > 0) {
+        const ch = textBeforeDot[i - 1];
+        let isGroup = false;
+        if (ch === ')' || ch === ']') {
+            i = findOpeningBracket(textBeforeDot, i - 1);
+            isGroup = true;
+        } else if (ch === '"') {
+            i = textBeforeDot.lastIndexOf('"', i - 2);
+        } else if (isWordChar(ch)) {
+            while (i > 0 && isWordChar(textBeforeDot[i - 1])) i--;
+        } else {
+            break;
+        }
+        if (i < 0) return null;
+        consumed = true;
+
+        const prev = textBeforeDot[i - 1];
+        if (isGroup && (isWordChar(prev) || prev === ')' || prev === ']')) {
+            // Arguments or subscript: `foo(1)`, `grid[0]`
+            continue;
+        }
+        if (prev === '.' && i > 1 && /[A-Za-z0-9_)\]"]/.test(textBeforeDot[i - 2])) {
+            i--;
+            continue;
+        }
+        break;
+    }
+    const text = textBeforeDot.slice(i).trim();
+    return consumed && text.length > 0 ? text : null;
+}
+
+function findOpeningBracket(text: string, close: number): number {
+    const open = text[close] === ')' ? '(' : '[';
+    let depth = 0;
+    for (let i = close; i >= 0; i--) {
+        if (text[i] === text[close]) depth++;
+        else if (text[i] === open && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/** True for a plain identifier receiver (`foo`, `Foo`, `this`), which needs no parsing. */
+export function isSimpleReceiver(text: string): boolean {
+    return IDENTIFIER.test(text);
+}
+
+/** Parse a standalone expression, or return null if it does not parse as one. */
+export function parseExpression(text: string): Expr | null {
+    try {
+        const lexer = new Lexer(new SourceFile('<receiver>', text));
+        const module = new Parser(lexer).parseModule();
+        const stmt = module.statements[0];
+        if (module.statements.length !== 1 || !stmt || stmt.kind.endsWith('Stmt')) {
+            return null;
+        }
+        return stmt as Expr;
+    } catch {
+        return null;
+    }
+}
+
+/** Infer the type of the receiver text before a `.`, or null when unknown. */
+export function inferReceiverType(receiverText: string, env: TypeEnvironment): InferredType | null {
+    const expr = parseExpression(receiverText);
+    return expr ? inferType(expr, env) : null;
+}
+
+/** Infer the type of an expression through calls, getters, operators and subscripts. */
+export function inferType(expr: Expr, env: TypeEnvironment): InferredType | null {
+    switch (expr.kind) {
+        case 'ThisExpr':
+            return env.enclosingClass ? instance(env.enclosingClass) : null;
+
+        case 'GroupingExpr':
+            return inferType(expr.expression, env);
+
+        case 'CallExpr': {
+            if (!expr.receiver) {
+                return inferBareCall(expr, env);
+            }
+            const receiver = inferType(expr.receiver, env);
+            if (!receiver) return null;
+            return inferMember(receiver, expr.name.text, callArity(expr.arguments, expr.blockArgument), env);
+        }
+
+        case 'SuperExpr': {
+            const superclass = env.enclosingClass
+                ? env.aggregate.classes.get(env.enclosingClass)?.superclass
+                : null;
+            if (!superclass || !expr.name) return null;
+            return inferMember(instance(superclass), expr.name.text, callArity(expr.arguments, expr.blockArgument), env);
+        }
+
+        case 'SubscriptExpr': {
+            const receiver = inferType(expr.receiver, env);
+            if (!receiver || receiver.isClass) return null;
+            const method = findSubscript(env, receiver.className, expr.arguments?.length ?? 0);
+            return method?.returnType ? instance(method.returnType) : null;
+        }
+
+        case 'InfixExpr': {
+            const left = inferType(expr.left, env);
+            if (!left || left.isClass) return null;
+            return inferOperator(left.className, expr.operator.text, 1, env);
+        }
+
+        case 'PrefixExpr': {
+            const operand = inferType(expr.right, env);
+            if (!operand || operand.isClass) return null;
+            if (expr.operator.text === '!') return instance('Bool');
+            return inferOperator(operand.className, expr.operator.text, 0, env);
+        }
+
+        case 'ConditionalExpr': {
+            const thenType = inferType(expr.thenBranch, env);
+            const elseType = inferType(expr.elseBranch, env);
+            return thenType && elseType && thenType.className === elseType.className
+                && thenType.isClass === elseType.isClass ? thenType : null;
+        }
+
+        default: {
+            const literal = inferExprType(expr);
+            return literal ? instance(literal) : null;
+        }
+    }
+}
+
+function instance(className: string): InferredType {
+    return { className, isClass: false };
+}
+
+function inferBareCall(expr: CallExpr, env: TypeEnvironment): InferredType | null {
+    const name = expr.name.text;
+    if (expr.arguments === null && !expr.blockArgument) {
+        const local = env.locals.get(name);
+        if (local) return instance(local);
+        const initializer = env.initializers?.get(name);
+        if (initializer) {
+            // Guard against `var a = a.b` style self references
+            const initializers = new Map(env.initializers);
+            initializers.delete(name);
+            return inferType(initializer, { ...env, initializers });
+        }
+        if (/^[A-Z]/.test(name)) {
+            return { className: name, isClass: true };
+        }
+    }
+    // Implicit call on `this` inside a method
+    return env.enclosingClass
+        ? inferMember(instance(env.enclosingClass), name, callArity(expr.arguments, expr.blockArgument), env)
+        : null;
+}
+
+function inferMember(
+    receiver: InferredType,
+    name: string,
+    arity: number,
+    env: TypeEnvironment,
+): InferredType | null {
+    const bucket = env.aggregate.classes.get(receiver.className);
+    if (receiver.isClass) {
+        const method = pickOverload(bucket?.staticMethods.get(name), arity);
+        if (method?.returnType) return instance(method.returnType);
+        // Constructors return an instance of their class, declared or not
+        if (method?.isConstructor || (name === 'new' && !method)) return instance(receiver.className);
+        return null;
+    }
+    const method = pickOverload(bucket?.methods.get(name), arity);
+    return method?.returnType ? instance(method.returnType) : null;
+}
+
+function inferOperator(className: string, operator: string, arity: number, env: TypeEnvironment): InferredType | null {
+    const method = pickOverload(env.aggregate.classes.get(className)?.methods.get(operator), arity);
+    if (method?.returnType) return instance(method.returnType);
+    if (operator === '==' || operator === '!=' || operator === 'is') return instance('Bool');
+    const builtin = OPERATOR_RESULTS[className]?.[operator];
+    return builtin ? instance(builtin) : null;
+}
+
+/** Subscript getters are indexed as `[a, b]` (workspace) or `]` (core stubs). */
+function findSubscript(env: TypeEnvironment, className: string, arity: number): WrenMethodSymbol | undefined {
+    const bucket = env.aggregate.classes.get(className);
+    if (!bucket) return undefined;
+    const candidates: WrenMethodSymbol[] = [];
+    for (const [name, overloads] of bucket.methods) {
+        if ((name.startsWith('[') && !name.endsWith('=')) || name === ']') {
+            candidates.push(...overloads);
+        }
+    }
+    return pickOverload(candidates, arity);
+}
+
+/** Prefer the overload with matching arity, then any overload with a return type. */
+function pickOverload(overloads: WrenMethodSymbol[] | undefined, arity: number): WrenMethodSymbol | undefined {
+    if (!overloads || overloads.length === 0) return undefined;
+    return overloads.find(m => m.params.length === arity)
+        ?? overloads.find(m => m.returnType !== undefined);
+}
+
+function callArity(args: Expr[] | null, blockArgument: Body | null | undefined): number {
+    return (args?.length ?? 0) + (blockArgument ? 1 : 0);
+}
@@ -12,40 +12,85 @@ export interface WrenMethodSymbol {
     params: string[];
     isStatic: boolean;
     isConstructor: boolean;
+    /** The whole declaration, through the closing `}` of the body */
     range: vscode.Range;
+    /** The name token (absent for core classes) */
+    selectionRange?: vscode.Range;
     detail: string;
     className: string;
+    /** Class named by the `-> Type` annotation, if any */
+    returnType?: string;
+    /** Declared without a parameter list (`name { ... }`) */
+    isGetter?: boolean;
     uri?: vscode.Uri;
+    /** Markdown from the `///` comment above the declaration */
+    documentation?: string;
+    /** Parameter descriptions from `@param` tags */
+    paramDocs?: Record<string, string>;
 }
 
 export interface WrenClassSymbol {
     name: string;
+    /** Superclass named after `is`, if any */
+    superclass?: string;
     range: vscode.Range;
     selectionRange: vscode.Range;
     methods: WrenMethodSymbol[];
     staticMethods: WrenMethodSymbol[];
     fields: WrenFieldSymbol[];
     uri?: vscode.Uri;
+    /** Markdown from the `///` comment above the declaration */
+    documentation?: string;
+}
+
+export interface WrenVariableSymbol {
+    name: string;
+    range: vscode.Range;
+    /** The whole `var` statement, initializer included */
+    declarationRange: vscode.Range;
+    /** Annotated or inferred type, if known */
+    type: string | null;
+    /** Block parameters when the variable holds a `Fn.new { |a, b| ... }` */
+    fnParams?: string[];
 }
 
 export interface WrenImportSymbol {
     moduleName: string;        // raw module name as written (e.g. "utils", "random")
     path: string;              // normalized file path (e.g. "./utils.wren")
     range: vscode.Range;       // range of the import path string in source
+    declarationRange: vscode.Range; // the whole import statement
     variables: string[] | null; // names after 'for' (null = import everything)
 }
 
+/** A chain of imports that leads from a file back to itself. */
+export interface ImportCycle {
+    /** Files of the cycle, starting and ending with the same file */
+    files: string[];
+    /** The import in each file but the last that leads to the next one */
+    imports: WrenImportSymbol[];
+}
+
 export interface WrenFileIndex {
     uri: vscode.Uri;
     version: number;
     classes: WrenClassSymbol[];
     imports: WrenImportSymbol[];
+    /** Top-level `var` declarations (importable with `import "x" for name`) */
+    variables: WrenVariableSymbol[];
     parsedAt: number;
 }
 
 export interface AggregatedClassIndex {
     name: string;
+    /** Direct superclass (`Object` when none is declared; null only for `Object` itself) */
+    superclass: string | null;
+    /** Superclass chain, nearest first (e.g. ["Actor", "Object"]) */
+    ancestors: string[];
+    /** Doc comment of the class declaration, if any */
+    documentation?: string;
+    /** Instance methods, including those inherited from ancestors (see `WrenMethodSymbol.className`) */
     methods: Map<string, WrenMethodSymbol[]>;
+    /** Static methods and constructors declared by the class itself (Wren does not inherit them) */
     staticMethods: Map<string, WrenMethodSymbol[]>;
 }
 
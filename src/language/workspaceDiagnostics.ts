@@ -0,0 +1,221 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WrenLanguageService } from './languageService';
+import type { ModuleChange } from './languageService';
+import { ModuleWatcher } from './moduleWatcher';
+
+export type DiagnosticsScope = 'openFiles' | 'workspace';
+
+/** Pause after each file of a background pass, so analysis never starves the extension host. */
+const ANALYSIS_INTERVAL_MS = 25;
+/** Wait for file changes on disk to settle, so a branch switch costs one pass. */
+const CHANGE_DEBOUNCE_MS = 500;
+
+/**
+ * Diagnostics for the `.wren` files of the workspace that are not open, when
+ * `wren.diagnosticsScope` is `workspace`.
+ *
+ * Files open in an editor are left to the editor's own diagnostics, which
+ * follow every edit.  Every other file is analyzed from disk in a rate-limited background
+ * pass, then again whenever it changes on disk.  Files in folders matched by
+ * `files.exclude` are skipped.
+ */
+export class WorkspaceDiagnostics implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+    private scope: DiagnosticsScope = 'openFiles';
+    /** Workspace files included in the analysis */
+    private files = new Set<string>();
+    /** Files whose problems this class has published */
+    private readonly reported = new Set<string>();
+    private readonly pending = new Set<string>();
+    private changeTimer: ReturnType<typeof setTimeout> | undefined;
+    private generation = 0;
+
+    constructor(
+        private readonly service: WrenLanguageService,
+        private readonly collection: vscode.DiagnosticCollection,
+        watcher: ModuleWatcher,
+    ) {
+        this.disposables.push(
+            watcher.onDidChangeFile(({ uri, change }) => this.handleFileChange(uri, change)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('wren.diagnosticsScope')
+                    || event.affectsConfiguration('wren.enableDiagnostics')
+                    || event.affectsConfiguration('wren.additionalModuleDirectories')
+                    || event.affectsConfiguration('files.exclude')) {
+                    this.restart();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.restart()),
+        );
+        this.restart();
+    }
+
+    dispose(): void {
+        this.generation++;
+        this.disposables.forEach(d => d.dispose());
+        clearTimeout(this.changeTimer);
+    }
+
+    /**
+     * Called when a document closes.  Its problems are dropped, unless the file
+     * belongs to a workspace-wide analysis: then they stay, and are re-read from
+     * disk if the document had been edited.
+     */
+    handleClose(document: vscode.TextDocument): void {
+        const fsPath = document.uri.fsPath;
+        if (this.scope !== 'workspace' || !this.files.has(fsPath)) {
+            this.collection.delete(document.uri);
+            return;
+        }
+        this.reported.add(fsPath);
+        if (document.version > 1) {
+            this.schedule(fsPath);
+        }
+    }
+
+    /** Analyze files again, e.g. because a module they import changed. */
+    reanalyze(paths: string[]): void {
+        if (this.scope !== 'workspace') return;
+        for (const fsPath of paths) {
+            if (this.files.has(fsPath)) {
+                this.schedule(fsPath);
+            }
+        }
+    }
+
+    private restart(): void {
+        const generation = ++this.generation;
+        clearTimeout(this.changeTimer);
+        this.pending.clear();
+
+        this.scope = vscode.workspace.getConfiguration('wren').get<DiagnosticsScope>('diagnosticsScope', 'openFiles');
+        if (this.scope !== 'workspace') {
+            for (const fsPath of this.reported) {
+                this.forget(fsPath);
+            }
+            this.files.clear();
+            return;
+        }
+
+        this.analyzeWorkspace(generation).catch(() => undefined);
+    }
+
+    private async analyzeWorkspace(generation: number): Promise<void> {
+        // findFiles leaves out everything matched by `files.exclude`
+        const uris = await vscode.workspace.findFiles('**/*.wren');
+        if (generation !== this.generation) return;
+
+        this.files = new Set(uris.map(uri => uri.fsPath));
+        for (const fsPath of this.reported) {
+            if (!this.files.has(fsPath)) {
+                this.forget(fsPath);
+            }
+        }
+
+        const files = [...this.files];
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'Wren' },
+            async progress => {
+                for (let i = 0; i < files.length; i++) {
+                    // A newer pass has started; let it finish the job
+                    if (generation !== this.generation) return;
+                    progress.report({ message: `Analyzing workspace (${i + 1}/${files.length})` });
+                    await this.analyze(files[i]);
+                    await delay(ANALYSIS_INTERVAL_MS);
+                }
+            },
+        );
+    }
+
+    private async handleFileChange(uri: vscode.Uri, change: ModuleChange): Promise<void> {
+        if (this.scope !== 'workspace') return;
+        switch (change) {
+            case 'created':
+                if (await isIncluded(uri)) {
+                    this.files.add(uri.fsPath);
+                    this.schedule(uri.fsPath);
+                }
+                break;
+            case 'changed':
+                if (this.files.has(uri.fsPath)) {
+                    this.schedule(uri.fsPath);
+                }
+                break;
+            case 'deleted':
+                if (this.files.delete(uri.fsPath)) {
+                    this.forget(uri.fsPath);
+                }
+                break;
+        }
+    }
+
+    /** Analyze files changed on disk once the changes settle. */
+    private schedule(fsPath: string): void {
+        this.pending.add(fsPath);
+        clearTimeout(this.changeTimer);
+        const generation = this.generation;
+        this.changeTimer = setTimeout(async () => {
+            const paths = [...this.pending];
+            this.pending.clear();
+            for (const p of paths) {
+                if (generation !== this.generation) return;
+                await this.analyze(p);
+                await delay(ANALYSIS_INTERVAL_MS);
+            }
+        }, CHANGE_DEBOUNCE_MS);
+    }
+
+    private async analyze(fsPath: string): Promise<void> {
+        // Open documents are kept current as they are edited
+        if (isOpen(fsPath)) return;
+        const diagnostics = await this.service.getDiagnosticsForPath(fsPath);
+        if (isOpen(fsPath) || !this.files.has(fsPath)) return;
+
+        if (diagnostics) {
+            this.collection.set(vscode.Uri.file(fsPath), diagnostics);
+            this.reported.add(fsPath);
+        } else {
+            this.forget(fsPath);
+        }
+    }
+
+    /** Drop the problems of a file, unless it is open. */
+    private forget(fsPath: string): void {
+        this.reported.delete(fsPath);
+        if (!isOpen(fsPath)) {
+            this.collection.delete(vscode.Uri.file(fsPath));
+        }
+    }
+}
+
+/**
+ * Whether the file is open in an editor: it has a tab, and its document is
+ * loaded.  Neither is enough alone.  `workspace.textDocuments` also holds the
+ * documents the language service loads itself, and tabs restored after a
+ * reload have no document until they are shown.
+ */
+function isOpen(fsPath: string): boolean {
+    return hasEditorTab(fsPath) && vscode.workspace.textDocuments.some(document => document.uri.fsPath === fsPath);
+}
+
+/** Whether the file has a text editor tab, whether or not its document is loaded. */
+export function hasEditorTab(fsPath: string): boolean {
+    return vscode.window.tabGroups.all.some(group => group.tabs.some(tab =>
+        tab.input instanceof vscode.TabInputText && tab.input.uri.fsPath === fsPath));
+}
+
+/** Whether a file is in a workspace folder and not matched by `files.exclude`. */
+async function isIncluded(uri: vscode.Uri): Promise<boolean> {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+        return false;
+    }
+    const relative = path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+    const matches = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, relative), undefined, 1);
+    return matches.length > 0;
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,228 @@
+// =============================================================================
+// Workspace symbols (Ctrl+T) and the class lookup behind import quick fixes.
+//
+// Every `.wren` file of the workspace folders and
+// `wren.additionalModuleDirectories` is indexed in the background, one file
+// at a time.  The module watcher's file events keep the index current with
+// the disk, and edits to open documents are re-indexed once typing pauses.
+// A search returns at most MAX_RESULTS symbols, so an empty query in a large
+// workspace stays fast.
+// =============================================================================
+
+import * as fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WrenLanguageService } from './languageService';
+import { ModuleWatcher } from './moduleWatcher';
+import { WrenFileIndex } from './types';
+
+interface IndexedSymbol {
+    name: string;
+    /** Lowercased name, precomputed for matching */
+    key: string;
+    info: vscode.SymbolInformation;
+}
+
+/**
+ * Background index of every class, method, and field declared in `.wren` files
+ * of the workspace folders and `wren.additionalModuleDirectories`.
+ *
+ * Built once on activation, then kept current by the module watcher's file
+ * events and by edits to open documents.
+ */
+export class WorkspaceSymbolIndex implements vscode.Disposable {
+    private readonly symbols = new Map<string, IndexedSymbol[]>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private ready: Promise<void> = Promise.resolve();
+    private generation = 0;
+    private updateTimer: ReturnType<typeof setTimeout> | undefined;
+    private readonly pendingUpdates = new Set<string>();
+
+    constructor(private readonly service: WrenLanguageService, watcher: ModuleWatcher) {
+        this.disposables.push(
+            watcher.onDidChangeFile(({ uri, change }) => {
+                if (change === 'deleted') {
+                    this.symbols.delete(uri.fsPath);
+                } else {
+                    this.update(uri.fsPath);
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.languageId === 'wren') {
+                    this.scheduleUpdate(event.document.uri.fsPath);
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('wren.additionalModuleDirectories')) {
+                    this.rebuild();
+                }
+            }),
+        );
+        this.rebuild();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        clearTimeout(this.updateTimer);
+    }
+
+    /** Return symbols whose names fuzzily match the query, best matches first. */
+    async search(query: string, token?: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+        await this.ready;
+        const needle = query.toLowerCase();
+        const matches: { score: number; info: vscode.SymbolInformation }[] = [];
+
+        for (const fileSymbols of this.symbols.values()) {
+            if (token?.isCancellationRequested) {
+                return [];
+            }
+            for (const symbol of fileSymbols) {
+                const score = fuzzyScore(needle, symbol.name, symbol.key);
+                if (score !== null) {
+                    matches.push({ score, info: symbol.info });
+                }
+            }
+        }
+
+        matches.sort((a, b) => b.score - a.score || a.info.name.localeCompare(b.info.name));
+        return matches.slice(0, MAX_RESULTS).map(m => m.info);
+    }
+
+    /** Paths of the indexed files that declare a class with this exact name. */
+    async findClassDeclarations(name: string): Promise<string[]> {
+        await this.ready;
+        const files: string[] = [];
+        for (const [fsPath, fileSymbols] of this.symbols) {
+            if (fileSymbols.some(s => s.name === name && s.info.kind === vscode.SymbolKind.Class)) {
+                files.push(fsPath);
+            }
+        }
+        return files;
+    }
+
+    private rebuild(): void {
+        const generation = ++this.generation;
+        const roots = this.service.getAdditionalSearchRoots();
+
+        this.ready = (async () => {
+            const files = new Set<string>();
+            for (const uri of await vscode.workspace.findFiles('**/*.wren')) {
+                files.add(uri.fsPath);
+            }
+            for (const root of roots) {
+                for (const file of await listWrenFiles(root)) {
+                    files.add(file);
+                }
+            }
+
+            this.symbols.clear();
+            for (const file of files) {
+                // A newer rebuild has started; let it finish the job
+                if (generation !== this.generation) return;
+                await this.update(file);
+            }
+        })().catch(() => undefined);
+    }
+
+    /** Re-index edited documents after typing pauses. */
+    private scheduleUpdate(fsPath: string): void {
+        this.pendingUpdates.add(fsPath);
+        clearTimeout(this.updateTimer);
+        this.updateTimer = setTimeout(() => {
+            const paths = [...this.pendingUpdates];
+            this.pendingUpdates.clear();
+            paths.forEach(p => this.update(p));
+        }, 500);
+    }
+
+    private async update(fsPath: string): Promise<void> {
+        const index = await this.service.getFileIndexByPath(fsPath);
+        if (index) {
+            this.symbols.set(fsPath, toSymbols(index));
+        } else {
+            this.symbols.delete(fsPath);
+        }
+    }
+}
+
+const MAX_RESULTS = 500;
+
+function toSymbols(index: WrenFileIndex): IndexedSymbol[] {
+    const result: IndexedSymbol[] = [];
+    const add = (name: string, kind: vscode.SymbolKind, container: string, range: vscode.Range) => {
+        const info = new vscode.SymbolInformation(name, kind, container, new vscode.Location(index.uri, range));
+        result.push({ name, key: name.toLowerCase(), info });
+    };
+
+    for (const cls of index.classes) {
+        add(cls.name, vscode.SymbolKind.Class, vscode.workspace.asRelativePath(index.uri), cls.selectionRange);
+        for (const method of [...cls.staticMethods, ...cls.methods]) {
+            const kind = method.isConstructor ? vscode.SymbolKind.Constructor : vscode.SymbolKind.Method;
+            add(method.name, kind, cls.name, method.range);
+        }
+        for (const field of cls.fields) {
+            add(field.name, vscode.SymbolKind.Field, cls.name, field.range);
+        }
+    }
+    return result;
+}
+
+/**
+ * Score a case-insensitive subsequence match of `needle` in `haystack`, or
+ * null when it does not match.  `haystack` is the lowercased `name`.
+ * Consecutive characters, matches at the start and at camelCase or `_`
+ * boundaries (`swapValues` for "sv") score higher.
+ */
+function fuzzyScore(needle: string, name: string, haystack: string): number | null {
+    if (needle.length === 0) {
+        return 0;
+    }
+    let score = 0;
+    let position = 0;
+    let previous = -2;
+    for (const ch of needle) {
+        const found = haystack.indexOf(ch, position);
+        if (found === -1) {
+            return null;
+        }
+        if (found === previous + 1) score += 3;
+        if (found === 0) score += 5;
+        else if (isWordStart(name, found)) score += 2;
+        score -= found - position;
+        previous = found;
+        position = found + 1;
+    }
+    return score - (haystack.length - needle.length) * 0.1;
+}
+
+function isWordStart(name: string, index: number): boolean {
+    const prev = name[index - 1];
+    return prev === '_' || (/[a-z0-9]/.test(prev) && /[A-Z]/.test(name[index]));
+}
+
+async function listWrenFiles(root: string): Promise<string[]> {
+    const files: string[] = [];
+    const pending = [root];
+    while (pending.length > 0) {
+        const dir = pending.pop()!;
+        let entries: Dirent[];
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+                    pending.push(full);
+                }
+            } else if (entry.isFile() && entry.name.endsWith('.wren')) {
+                files.push(full);
+            }
+        }
+    }
+    return files;
+}
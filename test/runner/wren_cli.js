@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+// Stand-in for `wren_cli`, for trying the `wren` task and its problems
+// without an interpreter.  It does not run Wren: it replays the `// stub:`
+// comments of the script it is given, in order,
+//
+//     // stub: stdout Starting
+//     // stub: stderr [{module} line 4] in (script)
+//     // stub: exit 70
+//
+// where `{module}` is the name wren_cli gives the script: its path as passed,
+// without `.wren`, and starting with `./` when relative.
+
+const fs = require('fs');
+const path = require('path');
+
+const script = process.argv[2];
+if (!script) {
+    process.stderr.write('Usage: wren_cli <script> [arguments...]\n');
+    process.exit(64);
+}
+
+let source;
+try {
+    source = fs.readFileSync(script, 'utf8');
+} catch {
+    process.stderr.write(`Could not find file "${script}".\n`);
+    process.exit(66);
+}
+
+let moduleName = script.replace(/\.wren$/, '').split(path.sep).join('/');
+if (!path.isAbsolute(script) && !moduleName.startsWith('.')) {
+    moduleName = `./${moduleName}`;
+}
+
+let exitCode = 0;
+for (const line of source.split(/\r?\n/)) {
+    const match = /^\s*\/\/ stub: (stdout|stderr|exit) ?(.*)$/.exec(line);
+    if (!match) continue;
+    const [, kind, text] = match;
+    if (kind === 'exit') {
+        exitCode = Number(text);
+    } else {
+        process[kind].write(text.replace(/\{module\}/g, moduleName) + '\n');
+    }
+}
+process.exitCode = exitCode;